@@ -19,12 +19,13 @@ const baseRoute = createRoute()
 
 const parseWithZodOrArk = baseRoute
   .parse({
-    body: (ctx) => z.object({
+    // Standard Schema validators (Zod, ArkType, Valibot) can be passed directly
+    body: z.object({
       name: z.string()
-    }).parse(ctx.body),
-    query: (ctx) => type({
+    }),
+    query: type({
       id: 'string'
-    }).assert(ctx.query)
+    })
   })
   // Call parse multiple times
   .parse({
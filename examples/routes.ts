@@ -1,11 +1,11 @@
-import type { ZodError } from "zod";
 import {
+  bearerJwt,
   createRoute,
   jsonError,
+  sessionCookie,
   type ErrorHandlerPayload,
 } from "../src/server";
 import { getErrorInfo } from "../src/shared/error";
-import { throwIfNull } from "../src/shared/throwIfNull";
 
 const baseRoute = createRoute({
   name: "baseRoute",
@@ -15,15 +15,19 @@ const baseRoute = createRoute({
 export const publicRoute = baseRoute.extend({ name: "publicRoute" });
 
 export const userRoute = baseRoute.extend({ name: "userRoute" }).parse({
-  auth: async () => {
-    // @ts-ignore your getUser function
-    const user = await getUser();
-    throwIfNull(user, "Not authenticated", {
-      errorCode: "ERROR_NOT_AUTHENTICATED",
-      httpStatus: 401,
-    });
-    return { user };
-  },
+  auth: sessionCookie({
+    name: "session",
+    // @ts-ignore your getUserBySession function
+    verify: (sessionId) => getUserBySession(sessionId),
+  }),
+});
+
+// Or with a JWT from `Authorization: Bearer <token>`
+export const apiUserRoute = baseRoute.extend({ name: "apiUserRoute" }).parse({
+  auth: bearerJwt({
+    jwks: "https://auth.example.com/.well-known/jwks.json",
+    audience: "api",
+  }),
 });
 
 async function handleError(ctx: ErrorHandlerPayload) {
@@ -31,13 +35,11 @@ async function handleError(ctx: ErrorHandlerPayload) {
   const errorCode = errorInfo?.code || "INTERNAL_SERVER_ERROR";
   const routeName = ctx.error.routeInfo?.name;
 
-  // Return early without reporting if it's parsing error
-  if (ctx.error.name === "RouteError" && ctx.error.cause?.name === "ZodError") {
-    const code = "BAD_REQUEST";
-    const msg = ctx.error.message;
-    const details = ctx.error.cause as ZodError;
-    console.warn(`[warn] [${code}] ${msg}: ${JSON.stringify(details)}`);
-    return jsonError({ code, message: msg });
+  // Return early without reporting if it's a validation error. `details` holds the
+  // normalized issues from Zod, ArkType, or Standard Schema.
+  if (ctx.error.details) {
+    console.warn(`[warn] [${ctx.error.errorCode}] ${ctx.error.message}: ${JSON.stringify(ctx.error.details)}`);
+    return jsonError(ctx.error);
   }
 
   console.error(
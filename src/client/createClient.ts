@@ -0,0 +1,171 @@
+import type { ErrorInfo } from "../shared/error";
+import type { Result } from "../types";
+
+type RouteLike = { inferRouteType: unknown }
+
+/** Routes passed to `createClient`, as an array or an object of route handlers */
+type Routes = readonly RouteLike[] | Record<string, RouteLike>
+
+type InferRouteTypes<TRoutes> = TRoutes extends readonly (infer R)[]
+  ? ExtractRouteType<R>
+  : ExtractRouteType<TRoutes[keyof TRoutes]>
+
+type ExtractRouteType<R> = R extends { inferRouteType: infer T } ? T : never
+
+type ClientMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+// Routes without `method` in their parse payload accept any method
+type RoutesForMethod<TRoute, M extends ClientMethod> = TRoute extends { method: infer RM }
+  ? M extends RM ? TRoute : never
+  : never
+
+type RouteForPath<TRoute, P> = TRoute extends { path: infer RP }
+  ? P extends RP ? TRoute : never
+  : never
+
+type PathOf<TRoute> = TRoute extends { path: infer P } ? P : never
+
+type RequestOptions<TRoute> = {
+  headers?: HeadersInit
+  signal?: AbortSignal
+}
+  & (TRoute extends { input: { query: infer Q } } ? Q extends undefined ? { query?: undefined } : { query: Q } : {})
+  & (TRoute extends { input: { body: infer B } } ? B extends undefined ? { body?: undefined } : { body: B } : {})
+
+type RequestArgs<TRoute> = {} extends RequestOptions<TRoute>
+  ? [opts?: RequestOptions<TRoute>]
+  : [opts: RequestOptions<TRoute>]
+
+// Handlers returning a `Response` (eg. `json()`) can't be inferred further
+type ResponseData<TRoute> = TRoute extends { returnValue: infer R }
+  ? R extends Response ? unknown : R
+  : never
+
+// Routes declaring `.errors()` have a union of error codes, plus `NETWORK_ERROR` from the client
+type ClientError<TRoute> = TRoute extends { errorCode?: infer C }
+  ? string extends NonNullable<C> ? ErrorInfo : Omit<ErrorInfo, 'code'> & { code: NonNullable<C> | 'NETWORK_ERROR' }
+  : ErrorInfo
+
+type ClientFn<TRouteTypes, M extends ClientMethod> = <P extends PathOf<RoutesForMethod<TRouteTypes, M>>>(
+  path: P,
+  ...args: RequestArgs<RouteForPath<RoutesForMethod<TRouteTypes, M>, P>>
+) => Promise<Result<ResponseData<RouteForPath<RoutesForMethod<TRouteTypes, M>, P>>, ClientError<RouteForPath<RoutesForMethod<TRouteTypes, M>, P>>>>
+
+type ClientOptions = {
+  baseUrl: string
+  fetch?: (input: string | URL | Request, init?: RequestInit) => Promise<Response>
+  /** Headers sent with every request, eg. for authorization */
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>)
+}
+
+export type Client<TRoutes extends Routes> = {
+  get: ClientFn<InferRouteTypes<TRoutes>, 'GET'>
+  post: ClientFn<InferRouteTypes<TRoutes>, 'POST'>
+  put: ClientFn<InferRouteTypes<TRoutes>, 'PUT'>
+  patch: ClientFn<InferRouteTypes<TRoutes>, 'PATCH'>
+  delete: ClientFn<InferRouteTypes<TRoutes>, 'DELETE'>
+}
+
+/**
+ * Create a fetch client typed from the server routes. Example:
+ *
+ * ```ts
+ * // server
+ * export const routes = { getUser, createUser }
+ *
+ * // client
+ * const client = createClient<typeof routes>({ baseUrl: '/' })
+ * const { data, error } = await client.get('/api/users/123', { query: { include: 'profile' } })
+ * ```
+ *
+ * Non-2xx responses are returned as `{ error }` using the `ErrorInfo` shape of
+ * the default error body. The client never throws, network failures are
+ * returned with `NETWORK_ERROR` code.
+ */
+export function createClient<TRoutes extends Routes>(opts: ClientOptions): Client<TRoutes> {
+  const fetchFn = opts.fetch ?? fetch
+  const baseUrl = opts.baseUrl.replace(/\/$/, '')
+
+  const request = (method: ClientMethod) =>
+    async (path: string, requestOpts: { query?: unknown, body?: unknown, headers?: HeadersInit, signal?: AbortSignal } = {}) => {
+      const headers = new Headers(typeof opts.headers === 'function' ? await opts.headers() : opts.headers)
+      new Headers(requestOpts.headers).forEach((value, key) => headers.set(key, value))
+
+      let body: BodyInit | undefined
+      if (requestOpts.body instanceof FormData) {
+        body = requestOpts.body
+      } else if (requestOpts.body !== undefined) {
+        body = JSON.stringify(requestOpts.body)
+        if (!headers.has('content-type')) headers.set('content-type', 'application/json')
+      }
+
+      try {
+        const response = await fetchFn(`${baseUrl}${path}${serializeQuery(requestOpts.query)}`, {
+          method,
+          headers,
+          body,
+          signal: requestOpts.signal,
+        })
+        const responseBody = await parseResponseBody(response)
+        if (!response.ok) {
+          return { data: null, error: toErrorInfo(responseBody, response) }
+        }
+        return { data: responseBody, error: null }
+      } catch (error) {
+        return {
+          data: null,
+          error: { message: (error as Error).message, code: 'NETWORK_ERROR' } satisfies ErrorInfo,
+        }
+      }
+    }
+
+  return {
+    get: request('GET'),
+    post: request('POST'),
+    put: request('PUT'),
+    patch: request('PATCH'),
+    delete: request('DELETE'),
+  } as unknown as Client<TRoutes>
+}
+
+/**
+ * Serialize query to a search string. Arrays are joined with commas since the
+ * server reads `ctx.query` as `Record<string, string>`. `undefined` and `null` are skipped.
+ */
+function serializeQuery(query: unknown) {
+  if (!query || typeof query !== 'object') return ''
+  const searchParams = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue
+    const serialized = Array.isArray(value)
+      ? value.join(',')
+      : typeof value === 'object' ? JSON.stringify(value) : String(value)
+    searchParams.set(key, serialized)
+  }
+  const search = searchParams.toString()
+  return search ? `?${search}` : ''
+}
+
+async function parseResponseBody(response: Response) {
+  if (response.status === 204) return null
+  const text = await response.text()
+  if (response.headers.get('content-type')?.includes('json')) {
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text
+    }
+  }
+  return text
+}
+
+function toErrorInfo(body: unknown, response: Response): ErrorInfo {
+  const error = (body as { error?: ErrorInfo } | null)?.error
+  if (error && typeof error === 'object' && typeof error.message === 'string') {
+    return { ...error, httpStatus: response.status }
+  }
+  return {
+    message: typeof body === 'string' && body ? body : `Request failed with status ${response.status}`,
+    httpStatus: response.status,
+  }
+}
@@ -0,0 +1,272 @@
+import type { AppUser } from "../types";
+import { RouteError, type RequestContext } from "./createRoute";
+
+/** Context of the `auth` parse field */
+type AuthContext = RequestContext & { authHeader: string | null }
+
+/** OpenAPI security scheme of an auth adapter */
+export type AuthSecurityScheme =
+  | { type: 'http', scheme: 'bearer', bearerFormat?: string }
+  | { type: 'apiKey', in: 'header' | 'cookie', name: string }
+
+/** Auth adapter, with the security schemes it accepts for `generateOpenAPI` */
+export type AuthAdapter<TUser> = ((ctx: AuthContext) => Promise<TUser>) & {
+  /** Accepted schemes, any of them authenticates the request */
+  securitySchemes: AuthSecurityScheme[]
+}
+
+/** Registered and custom claims of a JWT payload */
+export type JwtClaims = {
+  sub?: string
+  iss?: string
+  aud?: string | string[]
+  /** Expiration time, in seconds since epoch */
+  exp?: number
+  /** Not before, in seconds since epoch */
+  nbf?: number
+  /** Issued at, in seconds since epoch */
+  iat?: number
+  [claim: string]: unknown
+}
+
+type BearerJwtOptions<TUser> = {
+  /** Secret for HS256 tokens */
+  secret?: string
+  /** JWKS URL, eg. `https://example.com/.well-known/jwks.json`, or the key set, for RS256 and ES256 tokens */
+  jwks?: string | URL | { keys: JsonWebKey[] }
+  /** Expected `aud`. Tokens for any of the audiences are accepted. */
+  audience?: string | string[]
+  /** Expected `iss` */
+  issuer?: string | string[]
+  /** Leeway for `exp` and `nbf` in seconds, for clock skew between servers. Defaults to 5. */
+  clockTolerance?: number
+  /** Map the verified claims to the user. Defaults to `{ id: sub, email, name, role }`. */
+  toUser?: (claims: JwtClaims, ctx: AuthContext) => Promise<TUser> | TUser
+}
+
+const JWT_ALGORITHMS = {
+  HS256: { name: 'HMAC', hash: 'SHA-256' },
+  RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  ES256: { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' },
+} as const
+
+const BEARER_JWT_SCHEME: AuthSecurityScheme = { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+
+// Refetch a JWKS URL at most this often, when a token is signed with an unknown key
+const JWKS_REFETCH_INTERVAL = 30_000
+
+/**
+ * Authenticate `Authorization: Bearer <jwt>` requests. Tokens are verified with
+ * WebCrypto: HS256 with `secret`, or RS256 and ES256 with the keys of `jwks`.
+ *
+ * ```ts
+ * createRoute().parse({
+ *   auth: bearerJwt({ jwks: 'https://auth.example.com/.well-known/jwks.json', audience: 'api' }),
+ * })
+ * ```
+ *
+ * Missing, invalid, or expired tokens fail with a 401 `RouteError` with
+ * `errorCode: 'UNAUTHENTICATED'`.
+ */
+export function bearerJwt<TUser = AppUser>(opts: BearerJwtOptions<TUser>): AuthAdapter<TUser> {
+  if (!opts.secret && !opts.jwks) throw new Error('bearerJwt requires `secret` or `jwks`')
+  const getKey = createKeyResolver(opts)
+  const toUser = opts.toUser ?? defaultToUser as unknown as NonNullable<BearerJwtOptions<TUser>['toUser']>
+
+  const adapter = async (ctx: AuthContext): Promise<TUser> => {
+    const token = getBearerToken(ctx.authHeader)
+    if (!token) throw unauthenticated('Missing bearer token', { bearer: true })
+    const claims = await verifyJwt(token, getKey, opts)
+    return toUser(claims, ctx)
+  }
+  return Object.assign(adapter, { securitySchemes: [BEARER_JWT_SCHEME] })
+}
+
+type SessionCookieOptions<TUser> = {
+  /** Name of the session cookie */
+  name: string
+  /** Get the user of the session, eg. from the database. Return `null` or `undefined` for invalid sessions. */
+  verify: (value: string, ctx: AuthContext) => Promise<TUser | null | undefined> | TUser | null | undefined
+}
+
+/**
+ * Authenticate requests with a session cookie.
+ *
+ * ```ts
+ * createRoute().parse({
+ *   auth: sessionCookie({ name: 'session', verify: (sessionId) => db.sessions.findUser(sessionId) }),
+ * })
+ * ```
+ */
+export function sessionCookie<TUser = AppUser>(opts: SessionCookieOptions<TUser>): AuthAdapter<TUser> {
+  const adapter = async (ctx: AuthContext): Promise<TUser> => {
+    const value = getCookie(ctx.request, opts.name)
+    if (!value) throw unauthenticated(`Missing \`${opts.name}\` cookie`)
+    const user = await opts.verify(value, ctx)
+    if (user === null || user === undefined) throw unauthenticated('Invalid or expired session')
+    return user
+  }
+  return Object.assign(adapter, { securitySchemes: [{ type: 'apiKey' as const, in: 'cookie' as const, name: opts.name }] })
+}
+
+type ApiKeyOptions<TUser> = {
+  /** Get the user of the API key. Return `null` or `undefined` for unknown or revoked keys. */
+  lookup: (key: string, ctx: AuthContext) => Promise<TUser | null | undefined> | TUser | null | undefined
+  /** Header with the key. Defaults to `X-API-Key`, with `Authorization: Bearer <key>` as fallback. */
+  header?: string
+}
+
+/**
+ * Authenticate requests with an API key.
+ *
+ * ```ts
+ * createRoute().parse({
+ *   auth: apiKey({ lookup: (key) => db.apiKeys.findUser(hash(key)) }),
+ * })
+ * ```
+ */
+export function apiKey<TUser = AppUser>(opts: ApiKeyOptions<TUser>): AuthAdapter<TUser> {
+  const header = opts.header ?? 'x-api-key'
+  const adapter = async (ctx: AuthContext): Promise<TUser> => {
+    const key = ctx.request.headers.get(header) || getBearerToken(ctx.authHeader)
+    if (!key) throw unauthenticated('Missing API key')
+    const user = await opts.lookup(key, ctx)
+    if (user === null || user === undefined) throw unauthenticated('Invalid API key')
+    return user
+  }
+  return Object.assign(adapter, {
+    securitySchemes: [{ type: 'apiKey' as const, in: 'header' as const, name: header }, { type: 'http' as const, scheme: 'bearer' as const }],
+  })
+}
+
+function unauthenticated(errorMessage: string, opts: { bearer?: boolean } = {}) {
+  return new RouteError("Not authenticated", {
+    errorCode: 'UNAUTHENTICATED',
+    errorMessage,
+    httpStatus: 401,
+    headers: opts.bearer ? { 'WWW-Authenticate': 'Bearer' } : undefined,
+  })
+}
+
+function getBearerToken(authHeader: string | null) {
+  const match = authHeader?.match(/^Bearer\s+(.+)$/i)
+  return match?.[1].trim()
+}
+
+function getCookie(request: Request, name: string) {
+  for (const cookie of request.headers.get('cookie')?.split(';') ?? []) {
+    const index = cookie.indexOf('=')
+    if (index !== -1 && cookie.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(cookie.slice(index + 1).trim())
+      } catch {
+        throw unauthenticated('Invalid session cookie')
+      }
+    }
+  }
+  return undefined
+}
+
+function defaultToUser(claims: JwtClaims): AppUser {
+  return {
+    id: claims.sub,
+    email: claims.email as string | undefined,
+    name: claims.name as string | undefined,
+    role: claims.role as string | undefined,
+  } as AppUser
+}
+
+type KeyResolver = (alg: keyof typeof JWT_ALGORITHMS, kid: string | undefined) => Promise<CryptoKey | undefined>
+
+function createKeyResolver(opts: { secret?: string, jwks?: BearerJwtOptions<unknown>['jwks'] }): KeyResolver {
+  const secretKey = opts.secret
+    ? crypto.subtle.importKey('raw', new TextEncoder().encode(opts.secret), JWT_ALGORITHMS.HS256, false, ['verify'])
+    : undefined
+
+  let jwks: Promise<JsonWebKey[]> | undefined
+  let fetchedAt = 0
+  const loadJwks = () => {
+    if (!opts.jwks) return Promise.resolve([])
+    if (typeof opts.jwks === 'object' && 'keys' in opts.jwks) return Promise.resolve(opts.jwks.keys)
+    fetchedAt = Date.now()
+    jwks = fetch(opts.jwks).then(async response => {
+      if (!response.ok) throw new Error(`Failed to fetch JWKS: ${response.status}`)
+      return ((await response.json()) as { keys: JsonWebKey[] }).keys
+    })
+    // Retry on the next token instead of caching the failure
+    jwks.catch(() => { jwks = undefined })
+    return jwks
+  }
+  const importedKeys = new Map<JsonWebKey, Promise<CryptoKey>>()
+
+  return async (alg, kid) => {
+    if (alg === 'HS256') return secretKey
+    if (!opts.jwks) return undefined
+
+    const findKey = (keys: JsonWebKey[]) => keys.find(key =>
+      (kid === undefined || (key as { kid?: string }).kid === kid) &&
+      (!key.alg || key.alg === alg) &&
+      key.kty === (alg === 'RS256' ? 'RSA' : 'EC'))
+    let jwk = findKey(await (jwks ?? loadJwks()))
+    // The keys may have been rotated since they were fetched
+    if (!jwk && Date.now() - fetchedAt > JWKS_REFETCH_INTERVAL) jwk = findKey(await loadJwks())
+    if (!jwk) return undefined
+
+    let key = importedKeys.get(jwk)
+    if (!key) {
+      key = crypto.subtle.importKey('jwk', jwk, JWT_ALGORITHMS[alg], false, ['verify'])
+      importedKeys.set(jwk, key)
+    }
+    return key
+  }
+}
+
+async function verifyJwt(token: string, getKey: KeyResolver, opts: BearerJwtOptions<unknown>) {
+  const parts = token.split('.')
+  if (parts.length !== 3) throw unauthenticated('Malformed token', { bearer: true })
+  const [encodedHeader, encodedPayload, encodedSignature] = parts
+
+  let header: { alg?: string, kid?: string }
+  let claims: JwtClaims
+  let signature: BufferSource
+  try {
+    header = JSON.parse(new TextDecoder().decode(decodeBase64Url(encodedHeader)))
+    claims = JSON.parse(new TextDecoder().decode(decodeBase64Url(encodedPayload)))
+    signature = decodeBase64Url(encodedSignature)
+  } catch {
+    throw unauthenticated('Malformed token', { bearer: true })
+  }
+
+  const alg = header.alg as keyof typeof JWT_ALGORITHMS
+  if (!Object.hasOwn(JWT_ALGORITHMS, alg)) throw unauthenticated(`Unsupported token algorithm: ${header.alg}`, { bearer: true })
+  const key = await getKey(alg, header.kid)
+  if (!key) throw unauthenticated('Unknown token signing key', { bearer: true })
+
+  const isValid = await crypto.subtle.verify(
+    JWT_ALGORITHMS[alg],
+    key,
+    signature,
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+  )
+  if (!isValid) throw unauthenticated('Invalid token signature', { bearer: true })
+
+  const now = Date.now() / 1000
+  const tolerance = opts.clockTolerance ?? 5
+  if (claims.exp !== undefined && now - tolerance >= claims.exp) throw unauthenticated('Token expired', { bearer: true })
+  if (claims.nbf !== undefined && now + tolerance < claims.nbf) throw unauthenticated('Token not yet valid', { bearer: true })
+  if (opts.issuer) {
+    const issuers = Array.isArray(opts.issuer) ? opts.issuer : [opts.issuer]
+    if (!claims.iss || !issuers.includes(claims.iss)) throw unauthenticated('Invalid token issuer', { bearer: true })
+  }
+  if (opts.audience) {
+    const expected = Array.isArray(opts.audience) ? opts.audience : [opts.audience]
+    const audiences = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : []
+    if (!audiences.some(aud => expected.includes(aud))) throw unauthenticated('Invalid token audience', { bearer: true })
+  }
+  return claims
+}
+
+function decodeBase64Url(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), char => char.charCodeAt(0))
+}
@@ -0,0 +1,97 @@
+import type { AppUser } from "../types";
+import type { RequestContext } from "./createRoute";
+
+/**
+ * Check for `.authorize()`. `permission` describes the requirement, eg.
+ * `role:admin`, and is listed in `getRouteInfo().permissions`.
+ */
+export type AuthorizeRule<TContext = {}> = {
+  permission: string
+  /** Error message when the check fails */
+  message?: string
+  check: (ctx: RequestContext & TContext) => Promise<boolean> | boolean
+}
+
+type AuthContext<TUser> = { parsed: { auth: TUser } }
+
+/**
+ * Allow users with any of the roles, from `ctx.parsed.auth.role`.
+ *
+ * ```ts
+ * createRoute()
+ *   .parse({ auth: bearerJwt({ secret }) })
+ *   .authorize(requireRole(['admin', 'owner']))
+ * ```
+ */
+export function requireRole(roles: string | string[]): AuthorizeRule<AuthContext<Pick<AppUser, 'role'>>> {
+  const allowedRoles = Array.isArray(roles) ? roles : [roles]
+  return {
+    permission: `role:${allowedRoles.join('|')}`,
+    message: `Requires role ${allowedRoles.join(' or ')}`,
+    check: (ctx) => !!ctx.parsed.auth?.role && allowedRoles.includes(ctx.parsed.auth.role),
+  }
+}
+
+/**
+ * Allow users subscribed to any of the plans, from `ctx.parsed.auth.subscriptionPlan`.
+ */
+export function requirePlan(plans: string | string[]): AuthorizeRule<AuthContext<Pick<AppUser, 'subscriptionPlan'>>> {
+  const allowedPlans = Array.isArray(plans) ? plans : [plans]
+  return {
+    permission: `plan:${allowedPlans.join('|')}`,
+    message: `Requires plan ${allowedPlans.join(' or ')}`,
+    check: (ctx) => !!ctx.parsed.auth?.subscriptionPlan && allowedPlans.includes(ctx.parsed.auth.subscriptionPlan),
+  }
+}
+
+/** Whether the user can do the action on the resource */
+type PolicyCheck = (user: any, resource: any) => Promise<boolean> | boolean
+
+/** Policy checks by resource and action, eg. `{ project: { update: (user, project) => ... } }` */
+export type PolicyMap = Record<string, Record<string, PolicyCheck>>
+
+/**
+ * Define policies by resource and action. Use `require()` for routes, it checks
+ * `ctx.parsed.auth` against `ctx.parsed.resource`, and `can()` anywhere else:
+ *
+ * ```ts
+ * const policies = definePolicies({
+ *   project: {
+ *     read: (user: AppUser, project: Project) => project.members.includes(user.id),
+ *     delete: (user: AppUser, project: Project) => project.ownerId === user.id,
+ *   },
+ * })
+ *
+ * createRoute()
+ *   .parse({ auth: sessionCookie({ ... }), resource: (ctx) => getProject(ctx.pathParams.id) })
+ *   .authorize(policies.require('project', 'delete'))
+ * ```
+ */
+export function definePolicies<const TPolicies extends PolicyMap>(policies: TPolicies) {
+  const can = async <TResource extends keyof TPolicies & string, TAction extends keyof TPolicies[TResource] & string>(
+    user: Parameters<TPolicies[TResource][TAction]>[0],
+    resource: TResource,
+    action: TAction,
+    value: Parameters<TPolicies[TResource][TAction]>[1],
+  ) => {
+    const check = policies[resource]?.[action]
+    // Actions without a policy are denied
+    return check ? !!(await check(user, value)) : false
+  }
+
+  return {
+    policies,
+    can,
+    /** Rule for `.authorize()` that checks `ctx.parsed.auth` against `ctx.parsed.resource` */
+    require<TResource extends keyof TPolicies & string, TAction extends keyof TPolicies[TResource] & string>(
+      resource: TResource,
+      action: TAction,
+    ): AuthorizeRule<{ parsed: { auth: Parameters<TPolicies[TResource][TAction]>[0], resource: Parameters<TPolicies[TResource][TAction]>[1] } }> {
+      return {
+        permission: `${resource}:${action}`,
+        message: `Not allowed to ${action} ${resource}`,
+        check: (ctx) => can(ctx.parsed.auth, resource, action, ctx.parsed.resource),
+      }
+    },
+  }
+}
@@ -0,0 +1,125 @@
+import { RouteError } from "./createRoute";
+import { decodedETag } from "./headers";
+import { notModified } from "./response";
+import { jsonSerializer } from "./serializers";
+
+export type CacheOptions<TContext = Record<string, unknown>> = {
+  /** `Cache-Control` header of successful GET responses, eg. `private, max-age=60` */
+  cacheControl?: string
+  /** Compute a strong (default) or weak ETag from the response body. `false` to disable. */
+  etag?: 'strong' | 'weak' | false
+  /** `Last-Modified` of the resource, eg. from `ctx.parsed.resource.updatedAt` */
+  lastModified?: (ctx: TContext) => Date | undefined
+  /**
+   * Current ETag of the resource for mutations (POST, PUT, PATCH, DELETE). It's
+   * checked against `If-Match` before the handler runs. See `etagFor()`.
+   */
+  resourceETag?: (ctx: TContext) => Promise<string | undefined> | string | undefined
+}
+
+// Bodies that can't be buffered to compute an ETag
+const STREAMING_CONTENT_TYPES = ['text/event-stream', 'application/x-ndjson']
+
+/**
+ * Compute an ETag from a body: `"<hash>"`, or `W/"<hash>"` when weak.
+ */
+export async function computeETag(body: string | ArrayBuffer | Uint8Array, opts: { weak?: boolean } = {}) {
+  const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body
+  const digest = await crypto.subtle.digest('SHA-1', bytes as ArrayBuffer)
+  const hash = btoa(String.fromCharCode(...new Uint8Array(digest))).replace(/=+$/, '')
+  return opts.weak ? `W/"${hash}"` : `"${hash}"`
+}
+
+/**
+ * ETag of a value serialized as JSON, the same as the ETag `createRoute({ cache })`
+ * sets on a GET response returning that value. Use it for `resourceETag`.
+ */
+export function etagFor(value: unknown, opts: { weak?: boolean } = {}) {
+  return computeETag(String(jsonSerializer.serialize(value)), opts)
+}
+
+/**
+ * Set `ETag`, `Cache-Control`, and `Last-Modified` on a successful GET or HEAD
+ * response, and answer `If-None-Match` or `If-Modified-Since` with 304. Other
+ * responses are returned as is. Works in `onResponse`:
+ *
+ * ```ts
+ * createRoute({
+ *   onResponse: (ctx) => conditionalResponse(ctx.request, ctx.response, { cacheControl: 'no-cache' }),
+ * })
+ * ```
+ */
+export async function conditionalResponse(
+  request: Request,
+  response: Response,
+  opts: Omit<CacheOptions, 'lastModified' | 'resourceETag'> & { lastModified?: Date } = {},
+) {
+  if (!['GET', 'HEAD'].includes(request.method) || response.status !== 200) return response
+
+  const headers: Record<string, string> = {}
+  if (opts.cacheControl) headers['Cache-Control'] = opts.cacheControl
+  if (opts.lastModified) headers['Last-Modified'] = opts.lastModified.toUTCString()
+
+  let etag = response.headers.get('etag')
+  const contentType = response.headers.get('content-type') ?? ''
+  const isStreaming = STREAMING_CONTENT_TYPES.some(type => contentType.includes(type))
+  if (!etag && opts.etag !== false && response.body && !isStreaming) {
+    etag = await computeETag(await response.clone().arrayBuffer(), { weak: opts.etag === 'weak' })
+    headers['ETag'] = etag
+  }
+
+  if (isNotModified(request, etag, opts.lastModified)) {
+    const vary = response.headers.get('vary')
+    return notModified({
+      headers: { ...(etag && { ETag: etag }), ...headers, ...(vary && { Vary: vary }) },
+    })
+  }
+
+  // Copy, the headers of the response may be immutable
+  const cachedResponse = new Response(response.body, response)
+  for (const [key, value] of Object.entries(headers)) cachedResponse.headers.set(key, value)
+  return cachedResponse
+}
+
+/**
+ * Throw a 412 `RouteError` when the request has an `If-Match` header that
+ * doesn't match the current ETag of the resource.
+ */
+export function assertIfMatch(request: Request, currentETag: string | undefined) {
+  const ifMatch = request.headers.get('if-match')
+  if (!ifMatch) return
+  // `If-Match` uses the strong comparison, weak ETags never match. Tags of
+  // compressed responses match the ETag of the uncompressed body.
+  const matches = currentETag !== undefined && (
+    ifMatch.trim() === '*' ||
+    (!currentETag.startsWith('W/') && parseETags(ifMatch).some(tag => decodedETag(tag) === currentETag))
+  )
+  if (!matches) {
+    throw new RouteError("Precondition Failed", {
+      errorCode: 'PRECONDITION_FAILED',
+      errorMessage: 'The resource was modified since it was fetched',
+      httpStatus: 412,
+    })
+  }
+}
+
+function isNotModified(request: Request, etag: string | null, lastModified: Date | undefined) {
+  const ifNoneMatch = request.headers.get('if-none-match')
+  if (ifNoneMatch) {
+    if (!etag) return false
+    // `If-None-Match` uses the weak comparison
+    const opaque = (tag: string) => decodedETag(tag.replace(/^W\//, ''))
+    return ifNoneMatch.trim() === '*' || parseETags(ifNoneMatch).some(tag => opaque(tag) === opaque(etag))
+  }
+  const ifModifiedSince = request.headers.get('if-modified-since')
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince)
+    // HTTP dates have a precision of one second
+    return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since
+  }
+  return false
+}
+
+function parseETags(header: string) {
+  return header.split(',').map(tag => tag.trim()).filter(Boolean)
+}
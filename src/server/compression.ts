@@ -0,0 +1,129 @@
+import { encodedETag } from "./headers";
+
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate'
+
+export type CompressionOptions = {
+  /**
+   * Encodings in order of preference, used when the client accepts several with
+   * the same quality. Defaults to `['br', 'gzip', 'deflate']`. Encodings the
+   * runtime's `CompressionStream` doesn't support, eg. `br`, are skipped.
+   */
+  encodings?: CompressionEncoding[]
+  /** Minimum size of the body in bytes. Smaller bodies are sent as is. Defaults to 1024. */
+  threshold?: number
+  /**
+   * Compress streamed bodies, eg. `stream()` and `sse()`. Defaults to `false`:
+   * `CompressionStream` holds back its output until the stream ends, so events
+   * and heartbeats wouldn't reach the client as they are sent. Only enable it for
+   * streams that are short-lived or where delivery delays don't matter.
+   */
+  streams?: boolean
+}
+
+const COMPRESSION_FORMATS: Record<CompressionEncoding, string> = {
+  br: 'brotli',
+  gzip: 'gzip',
+  deflate: 'deflate',
+}
+
+const DEFAULT_ENCODINGS: CompressionEncoding[] = ['br', 'gzip', 'deflate']
+
+const DEFAULT_THRESHOLD = 1024
+
+// Text-based content types. Images, archives, and other binary types are usually compressed already.
+const COMPRESSIBLE_CONTENT_TYPE = /^text\/|^application\/(json|xml|javascript|x-ndjson)\b|\+(json|xml)\b|^image\/svg\+xml/
+
+// Bodies that are sent as they are produced, without a known size
+const STREAMING_CONTENT_TYPES = ['text/event-stream', 'application/x-ndjson']
+
+const supportedEncodings = new Map<CompressionEncoding, boolean>()
+
+/** Whether the runtime's `CompressionStream` supports the encoding */
+export function isEncodingSupported(encoding: CompressionEncoding) {
+  let supported = supportedEncodings.get(encoding)
+  if (supported === undefined) {
+    try {
+      new CompressionStream(COMPRESSION_FORMATS[encoding] as CompressionFormat)
+      supported = true
+    } catch {
+      supported = false
+    }
+    supportedEncodings.set(encoding, supported)
+  }
+  return supported
+}
+
+/**
+ * Pick the encoding for the `Accept-Encoding` header. Returns `undefined` when
+ * the client doesn't accept any of the supported encodings.
+ */
+export function negotiateEncoding(acceptEncoding: string | null, encodings = DEFAULT_ENCODINGS) {
+  if (!acceptEncoding) return undefined
+  const qualities = new Map<string, number>()
+  for (const part of acceptEncoding.split(',')) {
+    const [coding, ...params] = part.split(';').map(value => value.trim().toLowerCase())
+    const quality = params.find(param => param.startsWith('q='))
+    if (coding) qualities.set(coding, quality ? Number(quality.slice(2)) : 1)
+  }
+
+  let best: { encoding: CompressionEncoding, q: number } | undefined
+  for (const encoding of encodings) {
+    const q = qualities.get(encoding) ?? qualities.get('*') ?? 0
+    if (q > 0 && q > (best?.q ?? 0) && isEncodingSupported(encoding)) best = { encoding, q }
+  }
+  return best?.encoding
+}
+
+/**
+ * Compress a response with the encoding negotiated from `Accept-Encoding`, and
+ * add `Accept-Encoding` to `Vary`. Small bodies, binary content types, and
+ * responses that are already encoded are returned as is. Works in `onResponse`:
+ *
+ * ```ts
+ * createRoute({
+ *   onResponse: (ctx) => compressResponse(ctx.request, ctx.response, { threshold: 2048 }),
+ * })
+ * ```
+ */
+export async function compressResponse(request: Request, response: Response, opts: CompressionOptions = {}) {
+  if (!response.body || request.method === 'HEAD' || response.status === 204 || response.status === 304) return response
+  if (response.headers.has('content-encoding')) return response
+  if (/\bno-transform\b/.test(response.headers.get('cache-control') ?? '')) return response
+
+  const contentType = response.headers.get('content-type') ?? ''
+  if (!COMPRESSIBLE_CONTENT_TYPE.test(contentType)) return response
+  const isStreaming = STREAMING_CONTENT_TYPES.some(type => contentType.includes(type))
+  if (isStreaming && !opts.streams) return response
+
+  const headers = new Headers(response.headers)
+  const vary = headers.get('vary')
+  if (!vary?.toLowerCase().includes('accept-encoding')) {
+    headers.set('Vary', vary ? `${vary}, Accept-Encoding` : 'Accept-Encoding')
+  }
+  const init = { status: response.status, statusText: response.statusText, headers }
+
+  const encoding = negotiateEncoding(request.headers.get('accept-encoding'), opts.encodings)
+  if (!encoding) return new Response(response.body, init)
+
+  let body: ReadableStream<Uint8Array> = response.body
+  if (!isStreaming) {
+    const threshold = opts.threshold ?? DEFAULT_THRESHOLD
+    const contentLength = Number(headers.get('content-length') ?? NaN)
+    if (contentLength < threshold) return new Response(body, init)
+    if (Number.isNaN(contentLength)) {
+      // Buffer the body to know its size
+      const buffer = await response.arrayBuffer()
+      if (buffer.byteLength < threshold) return new Response(buffer, init)
+      body = new Blob([buffer]).stream()
+    }
+  }
+
+  headers.set('Content-Encoding', encoding)
+  headers.delete('Content-Length')
+  // The compressed body isn't byte-for-byte the same anymore. `If-Match` and
+  // `If-None-Match` map the tag back to the ETag of the uncompressed body.
+  const etag = headers.get('etag')
+  if (etag && !etag.startsWith('W/')) headers.set('ETag', encodedETag(etag, encoding))
+  const compressionStream = new CompressionStream(COMPRESSION_FORMATS[encoding] as CompressionFormat)
+  return new Response(body.pipeThrough(compressionStream as TransformStream<Uint8Array, Uint8Array>), init)
+}
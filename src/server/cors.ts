@@ -1,36 +1,127 @@
+import { setResponseHeaders } from "./headers";
+
+type OriginMatcher = string | RegExp
+
+export type CorsOptions = {
+  /**
+   * Allowed origins: `*` (default), an origin, a RegExp, a list of them, or a function.
+   * The request `Origin` is echoed back when it's allowed.
+   */
+  origin?: OriginMatcher | OriginMatcher[] | ((origin: string, request: Request) => Promise<boolean> | boolean)
+  /** @deprecated Use `origin` */
+  allowOrigin?: string
+  /** Defaults to `GET, POST, PUT, DELETE, OPTIONS` */
+  allowMethods?: string[]
+  /** Defaults to the headers in the preflight's `Access-Control-Request-Headers` */
+  allowHeaders?: string[]
+  /** Response headers readable by the browser, eg. `x-request-id` */
+  exposeHeaders?: string[]
+  /**
+   * Allow cookies and authorization headers. Requires an explicit `origin`, the
+   * wildcard would let any site make credentialed requests.
+   */
+  credentials?: boolean
+  /** How long the preflight response can be cached, in seconds */
+  maxAge?: number
+}
+
+export type CorsHandler = {
+  /** Respond to preflight requests. Returns `null` for other requests so they can proceed. */
+  (request: Request): Promise<Response | null>
+  /** Add CORS headers to the response of an actual (non-preflight) request */
+  decorate(request: Request, response: Response): Promise<Response>
+}
+
+const DEFAULT_ALLOW_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS']
+
 /**
  * Handles CORS for API routes. Example:
  *
  * ```ts
- * export const OPTIONS = cors()
+ * const handleCors = cors({ origin: ['https://app.example.com', /\.example\.com$/], credentials: true })
+ *
+ * export const OPTIONS = handleCors
  *
  * export async function POST(request: Request) {
- *   const corsResponse = await cors()(request)
+ *   const corsResponse = await handleCors(request)
  *   if (corsResponse) return corsResponse
  *
  *   // Process the request...
+ *   return handleCors.decorate(request, Response.json(data))
  * }
  * ```
+ *
+ * With `createRoute({ cors: { origin: ... } })` preflight requests are answered
+ * and every response, including error responses, is decorated automatically.
  */
-export function cors(opts?: { allowOrigin?: string; allowMethods?: string[] }) {
-  return async (request: Request) => {
-    const allowOrigin =
-      request.headers.get('origin') || opts?.allowOrigin || '*'
-    const allowMethods = opts?.allowMethods || [
-      'GET',
-      'POST',
-      'PUT',
-      'DELETE',
-      'OPTIONS',
-    ]
-    if (request.method === 'OPTIONS') {
-      const headers: Record<string, string> = {
-        'Access-Control-Allow-Origin': allowOrigin,
-        'Access-Control-Allow-Methods': allowMethods.join(', '),
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      }
-      return new Response(null, { headers, status: 204 })
+export function cors(opts: CorsOptions = {}): CorsHandler {
+  const origin = opts.origin ?? opts.allowOrigin ?? '*'
+  const allowMethods = opts.allowMethods ?? DEFAULT_ALLOW_METHODS
+  if (opts.credentials && (Array.isArray(origin) ? origin : [origin]).includes('*')) {
+    throw new Error('CORS `credentials` requires an explicit `origin`, not `*`')
+  }
+
+  // Headers shared by preflight and actual responses
+  const originHeaders = async (request: Request) => {
+    const requestOrigin = request.headers.get('origin')
+    const headers: Record<string, string> = {}
+    if (origin === '*') {
+      headers['Access-Control-Allow-Origin'] = '*'
+      return headers
+    }
+    headers['Vary'] = 'Origin'
+    if (!requestOrigin || !await isOriginAllowed(origin, requestOrigin, request)) return headers
+    headers['Access-Control-Allow-Origin'] = requestOrigin
+    if (opts.credentials) headers['Access-Control-Allow-Credentials'] = 'true'
+    return headers
+  }
+
+  const handler = async (request: Request) => {
+    if (request.method !== 'OPTIONS') {
+      return null // Indicates that CORS is handled and request can proceed
+    }
+
+    const headers = await originHeaders(request)
+    if (headers['Access-Control-Allow-Origin']) {
+      headers['Access-Control-Allow-Methods'] = allowMethods.join(', ')
+      const allowHeaders = opts.allowHeaders?.join(', ') ?? request.headers.get('access-control-request-headers')
+      if (allowHeaders) headers['Access-Control-Allow-Headers'] = allowHeaders
+      if (!opts.allowHeaders) appendVary(headers, 'Access-Control-Request-Headers')
+      if (opts.maxAge !== undefined) headers['Access-Control-Max-Age'] = String(opts.maxAge)
     }
-    return null // Indicates that CORS is handled and request can proceed
+    return new Response(null, { headers, status: 204 })
   }
+
+  handler.decorate = async (request: Request, response: Response) => {
+    const headers = await originHeaders(request)
+    if (headers['Access-Control-Allow-Origin'] && opts.exposeHeaders?.length) {
+      headers['Access-Control-Expose-Headers'] = opts.exposeHeaders.join(', ')
+    }
+    return setResponseHeaders(response, headers)
+  }
+
+  return handler
+}
+
+/**
+ * Check whether a preflight request is asking for CORS permissions, as opposed
+ * to a regular `OPTIONS` request.
+ */
+export function isPreflightRequest(request: Request) {
+  return request.method === 'OPTIONS' && request.headers.has('access-control-request-method')
+}
+
+async function isOriginAllowed(origin: NonNullable<CorsOptions['origin']>, requestOrigin: string, request: Request) {
+  if (typeof origin === 'function') return origin(requestOrigin, request)
+  const matchers = Array.isArray(origin) ? origin : [origin]
+  return matchers.some(matcher => {
+    if (matcher === '*') return true
+    if (typeof matcher === 'string') return matcher === requestOrigin
+    return matcher.test(requestOrigin)
+  })
+}
+
+function appendVary(headers: Record<string, string>, value: string) {
+  headers['Vary'] = headers['Vary'] ? `${headers['Vary']}, ${value}` : value
 }
+
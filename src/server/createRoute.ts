@@ -1,4 +1,16 @@
 import type { ErrorInfo } from "../shared/error";
+import type { Pretty } from "../types-helper";
+import { coercePathParams, compilePathPattern, decodePathParams, matchPath, type CompiledPathPattern, type PathParamValue } from "./pathPattern";
+import { cors, isPreflightRequest, type CorsOptions } from "./cors";
+import { setResponseHeaders } from "./headers";
+import type { AuthAdapter, AuthSecurityScheme } from "./auth";
+import { isStandardSchema, issuesFromError, normalizeIssues, type StandardSchemaV1, type ValidationIssue } from "./standardSchema";
+import { SpanStatusCode, type RouteSpan, type RouteTracer } from "./tracing";
+import type { InferSSEEvents } from "./response";
+import { acceptsAnySerializer, jsonSerializer, negotiateSerializer, type Serializer } from "./serializers";
+import { assertIfMatch, conditionalResponse, type CacheOptions } from "./cache";
+import { compressResponse, type CompressionOptions } from "./compression";
+import type { AuthorizeRule } from "./authorize";
 
 export function isRouteError(error: any): error is RouteError {
   return error instanceof RouteError ||
@@ -9,15 +21,67 @@ type RouteInfo = {
   name?: string
   extends: string[]
   steps: string[]
+  /** Permissions required by `.authorize()` steps, eg. `['role:admin']` */
+  permissions?: string[]
   requestFormat?: MapRequestObject['requestFormat']
 }
 
+export type StepStatus = 'ok' | 'error' | 'skipped'
+
+/**
+ * Execution record of a single route invocation. Each request gets its own
+ * record, so step statuses stay accurate when requests run concurrently.
+ */
+export type RouteExecution = {
+  requestFormat?: MapRequestObject['requestFormat']
+  /** Unix timestamp in milliseconds */
+  startedAt: number
+  /** Status and duration of each step that ran, by step index. Durations of `use` steps include the downstream steps. */
+  steps: Record<number, { status: StepStatus, durationMs: number }>
+  error?: RouteError
+}
+
+/**
+ * Static route declaration collected from the parse payloads (last wins).
+ * Used by `createRouter` to dispatch requests to the right handler.
+ */
+export type RouteDefinition = {
+  name?: string
+  path?: string
+  methods?: RouteMethod[]
+  /** Parse fields handled by the route, eg. `['auth', 'body']` */
+  fields: PredefinedParseFields[]
+  /** Schemas from the `schema` slot of the parse payloads */
+  schema: ParseSchemas
+  /** Parse fields validated by a Standard Schema, which fail with 422 */
+  validatedFields: PredefinedParseFields[]
+  /** Security schemes of the `auth` parse field, set by the adapters of `./auth`, eg. `apiKey()` */
+  securitySchemes?: AuthSecurityScheme[]
+  /** Permissions required by `.authorize()` steps, which fail with 403 */
+  permissions?: string[]
+  /** Whether the route answers CORS preflight requests (`cors` route option) */
+  cors: boolean
+  /** Response schemas by status from `.returns()` */
+  responses?: ResponseSchemas
+  /** HTTP status by error code from `.errors()` */
+  errors?: ErrorCodeStatuses
+}
+
 type RequestWithPathParams = {
   request: Request,
-  pathParams?: Record<string, string>
+  pathParams?: Record<string, string | string[]>
 }
 
-type MapRequestObject = RequestWithPathParams & {
+// Fields available in every step, in addition to the accumulated context
+export type RequestContext = {
+  request: Request
+  /** Taken from the `x-request-id` or `traceparent` header, or generated per request */
+  requestId: string
+}
+
+type MapRequestObject = Omit<RequestWithPathParams, 'pathParams'> & {
+  /** Path params from the framework. Next.js 15 passes them as a Promise. */
+  pathParams?: RequestWithPathParams['pathParams'] | Promise<RequestWithPathParams['pathParams']>
   requestFormat?:
   | 'OBJECT'
   | 'OBJECT_WITH_PARAMS' // Example: Bun.serve
@@ -26,6 +90,45 @@ type MapRequestObject = RequestWithPathParams & {
   | (string & {}) // Slot for custom format provided by user
 }
 
+export type RouteErrorDetails = ValidationIssue[] | Record<string, unknown>
+
+/** Error codes of the errors thrown by `createRoute` itself and the built-in helpers */
+export type BuiltInRouteErrorCode =
+  | 'REQUEST_MAPPING_ERROR'
+  | 'PREPARE_ERROR'
+  | 'PARSE_ERROR'
+  | 'AUTH_ERROR'
+  | 'VALIDATION_ERROR'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNSUPPORTED_MEDIA_TYPE'
+  | 'MIDDLEWARE_ERROR'
+  | 'HANDLER_ERROR'
+  | 'RESPONSE_VALIDATION_ERROR'
+  | 'RESOURCE_NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'RATE_LIMITED'
+  | 'NOT_ACCEPTABLE'
+  | 'SERIALIZATION_ERROR'
+  | 'PRECONDITION_FAILED'
+  | 'IDEMPOTENCY_CONFLICT'
+  | 'IDEMPOTENCY_KEY_REQUIRED'
+  | 'INVALID_SIGNATURE'
+  | 'UNAUTHENTICATED'
+  | 'UNAUTHORIZED'
+  | 'AUTHORIZE_ERROR'
+  | 'TENANT_REQUIRED'
+  | 'TENANT_NOT_FOUND'
+
+/** HTTP status by error code, declared with `.errors()` */
+export type ErrorCodeStatuses = Record<string, number>
+
+/** Throw a `RouteError` for an error code declared with `.errors()` */
+export type Fail<TErrors> = <TCode extends keyof TErrors & string>(
+  code: TCode,
+  details?: RouteErrorDetails,
+  message?: string,
+) => never
+
 // RouteError class for structured error handling
 export class RouteError extends Error {
   public readonly errorCode: string
@@ -33,6 +136,10 @@ export class RouteError extends Error {
   public readonly httpStatus: number
   public readonly cause?: Error
   public readonly routeInfo?: RouteInfo
+  /** Structured error details, eg. validation issues per field */
+  public readonly details?: RouteErrorDetails
+  /** Headers to send with the error response, eg. `Retry-After` */
+  public readonly headers?: Record<string, string>
 
   constructor(
     message: string,
@@ -42,6 +149,8 @@ export class RouteError extends Error {
       httpStatus: number
       cause?: Error
       routeInfo?: RouteInfo
+      details?: RouteErrorDetails
+      headers?: Record<string, string>
     }
   ) {
     super(message)
@@ -51,22 +160,44 @@ export class RouteError extends Error {
     this.httpStatus = options.httpStatus
     this.cause = options.cause
     this.routeInfo = options.routeInfo
+    this.details = options.details
+    this.headers = options.headers
   }
 }
 
 export type ErrorHandler = (ctx: ErrorHandlerPayload) => Promise<void | Response> | void | Response
 
-export type ErrorHandlerPayload = { error: RouteError } & RequestWithPathParams & Context
+export type ErrorHandlerPayload = { error: RouteError, requestId: string, execution: RouteExecution } & RequestWithPathParams & Context
 
 // Enhanced route options with minimal framework integration
 type RouteOptions = {
   name?: string
-  onRequest?: (ctx: RequestWithPathParams) => Promise<void | Response> | void | Response
-  onResponse?: (ctx: RequestWithPathParams & Context & { response: Response }) => Promise<void | Response> | void | Response
+  onRequest?: (ctx: RequestWithPathParams & { requestId: string }) => Promise<void | Response> | void | Response
+  onResponse?: (ctx: RequestWithPathParams & Context & { requestId: string, response: Response, execution: RouteExecution }) => Promise<void | Response> | void | Response
   onError?: ErrorHandler
   requestObject?: (...args: unknown[]) => MapRequestObject
-  requestFormat?: MapRequestObject['requestFormat']
   throwOnError?: boolean
+  /** Generate the request ID when the request doesn't carry one. Defaults to `crypto.randomUUID()` */
+  generateRequestId?: () => string
+  /** Header to read the incoming request ID from and to echo it in the response. Defaults to `x-request-id` */
+  requestIdHeader?: string
+  /** Maximum request body size in bytes for `parse({ body })`. Defaults to 1 MB */
+  maxBodySize?: number
+  /** Answer CORS preflight requests and add CORS headers to every response, including errors */
+  cors?: CorsOptions
+  /** Open a span per request, with child spans for each prepare step, parse field, and the handler */
+  tracer?: RouteTracer
+  /** Validate handler results against the `.returns()` schemas. Defaults to `true` unless `NODE_ENV` is `production` */
+  validateResponses?: boolean
+  /**
+   * Encode handler results by the `Accept` header, eg. `[jsonSerializer, csvSerializer]`.
+   * Requests accepting none of them fail with 406. Results are always sent as JSON without it.
+   */
+  serializers?: Serializer[]
+  /** Set `ETag`, `Cache-Control`, and `Last-Modified` on GET responses, and handle conditional requests */
+  cache?: CacheOptions<RequestContext & Context>
+  /** Compress responses with the encoding negotiated from `Accept-Encoding`. `true` to use the defaults. */
+  compress?: boolean | CompressionOptions
 }
 
 // Context types for progressive building
@@ -75,9 +206,11 @@ type EmptyContext = {}
 type MergeContexts<T, U> = T & U
 
 // HTTP methods supported
-type RouteMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH" | "OPTIONS" | "HEAD"
+export type RouteMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH" | "OPTIONS" | "HEAD"
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024
 
-const PREDEFINED_PARSE_FIELDS = ['headers', 'body', 'query', 'cookies', 'auth', 'resource', 'method', 'path'] as const
+const PREDEFINED_PARSE_FIELDS = ['headers', 'body', 'query', 'cookies', 'auth', 'resource', 'method', 'path', 'webhook', 'tenant'] as const
 
 type PredefinedParseFields = typeof PREDEFINED_PARSE_FIELDS[number]
 
@@ -87,26 +220,45 @@ type ExtractFunctionResult<T> =
   T extends (ctx: any) => infer R ? R :
   never
 
+// Parse field result from either a Standard Schema or a parse function. Schema is checked
+// first since some schemas are callable (eg. ArkType).
+type ExtractFieldResult<F> =
+  F extends StandardSchemaV1 ? StandardSchemaV1.InferOutput<F> :
+  F extends Function ? ExtractFunctionResult<F> :
+  never
+
+type ParseField = Function | StandardSchemaV1
+
+type ParseSchemas = Partial<Record<'body' | 'query' | 'headers' | 'cookies' | 'path', StandardSchemaV1>>
+
 // Parse fields with automatic literal type inference
 type ParseFields<TContext> = {
+  /** Schemas describing the parsed fields. Used for documentation, eg. by `generateOpenAPI` */
+  schema?: ParseSchemas
   path?: string
   method?: RouteMethod | readonly RouteMethod[]
-  auth?: (ctx: TContext & { request: Request, authHeader: string | null }) => Promise<unknown> | unknown
-  headers?: (ctx: TContext & { request: Request, headers: Headers }) => Promise<unknown> | unknown
-  cookies?: (ctx: TContext & { request: Request, cookies: Record<string, string> }) => Promise<unknown> | unknown
-  body?: (ctx: TContext & { request: Request, body: Record<string, unknown> }) => Promise<unknown> | unknown
-  query?: (ctx: TContext & { request: Request, query: Record<string, string> }) => Promise<unknown> | unknown
-  resource?: (ctx: TContext & { request: Request }) => Promise<unknown> | unknown
+  auth?: (ctx: TContext & RequestContext & { authHeader: string | null }) => Promise<unknown> | unknown
+  headers?: ((ctx: TContext & RequestContext & { headers: Headers }) => Promise<unknown> | unknown) | StandardSchemaV1
+  cookies?: ((ctx: TContext & RequestContext & { cookies: Record<string, string> }) => Promise<unknown> | unknown) | StandardSchemaV1
+  body?: ((ctx: TContext & RequestContext & { body: Record<string, unknown> }) => Promise<unknown> | unknown) | StandardSchemaV1
+  query?: ((ctx: TContext & RequestContext & { query: Record<string, string> }) => Promise<unknown> | unknown) | StandardSchemaV1
+  resource?: (ctx: TContext & RequestContext) => Promise<unknown> | unknown
+  /** Verify a webhook from the raw request body, eg. with `verifyWebhook()` */
+  webhook?: (ctx: TContext & RequestContext & { rawBody: ArrayBuffer }) => Promise<unknown> | unknown
+  /** Resolve the tenant of the request, eg. with `resolveTenant()` */
+  tenant?: (ctx: TContext & RequestContext & { pathParams: Record<string, PathParamValue> }) => Promise<unknown> | unknown
 };
 
 /** Extract parse results from payload */
 type ExtractParseResult<T> =
-  (T extends { body?: infer F } ? F extends Function ? { body: ExtractFunctionResult<F> } : {} : {}) &
-  (T extends { query?: infer F } ? F extends Function ? { query: ExtractFunctionResult<F> } : {} : {}) &
-  (T extends { auth?: infer F } ? F extends Function ? { auth: ExtractFunctionResult<F> } : {} : {}) &
-  (T extends { headers?: infer F } ? F extends Function ? { headers: ExtractFunctionResult<F> } : {} : {}) &
-  (T extends { cookies?: infer F } ? F extends Function ? { cookies: ExtractFunctionResult<F> } : {} : {}) &
-  (T extends { resource?: infer F } ? F extends Function ? { resource: ExtractFunctionResult<F> } : {} : {}) &
+  (T extends { body?: infer F } ? F extends ParseField ? { body: ExtractFieldResult<F> } : {} : {}) &
+  (T extends { query?: infer F } ? F extends ParseField ? { query: ExtractFieldResult<F> } : {} : {}) &
+  (T extends { auth?: infer F } ? F extends ParseField ? { auth: ExtractFieldResult<F> } : {} : {}) &
+  (T extends { headers?: infer F } ? F extends ParseField ? { headers: ExtractFieldResult<F> } : {} : {}) &
+  (T extends { cookies?: infer F } ? F extends ParseField ? { cookies: ExtractFieldResult<F> } : {} : {}) &
+  (T extends { resource?: infer F } ? F extends ParseField ? { resource: ExtractFieldResult<F> } : {} : {}) &
+  (T extends { webhook?: infer F } ? F extends ParseField ? { webhook: ExtractFieldResult<F> } : {} : {}) &
+  (T extends { tenant?: infer F } ? F extends ParseField ? { tenant: ExtractFieldResult<F> } : {} : {}) &
   (T extends { method?: infer M } ?
     M extends readonly RouteMethod[] ? { method: M[number] } :
     M extends RouteMethod ? { method: M } :
@@ -139,18 +291,66 @@ type ParseResult<TContext, TFields> = TContext extends { parsed: infer TExisting
 // Helper type for accumulating parse payloads
 type MergeParseFields<TExisting, TNew> = TExisting & TNew
 
-type StepFn = (ctx: { request: Request } & Context) => Promise<unknown>
+/** Response body schemas by HTTP status, eg. `{ 200: User, 404: NotFound }` */
+export type ResponseSchemas = { [status: number]: StandardSchemaV1 }
+
+/** Handler result with an explicit status, for the statuses declared in `.returns()` */
+export type StatusResponse<TSchemas extends ResponseSchemas> = {
+  [K in keyof TSchemas & number]: {
+    status: K
+    body: StandardSchemaV1.InferInput<TSchemas[K]>
+    headers?: Record<string, string>
+  }
+}[keyof TSchemas & number]
+
+// Values a handler can return once `.returns()` is declared. Plain values are sent with status 200.
+type HandlerReturn<TAccumulatedPayloads> = TAccumulatedPayloads extends { returns: infer S extends ResponseSchemas }
+  ? StatusResponse<S> | Response | (200 extends keyof S ? StandardSchemaV1.InferInput<S[200]> : never)
+  : unknown
+
+// Response bodies of the 2xx statuses
+type SuccessResponseBody<TSchemas extends ResponseSchemas> = {
+  [K in keyof TSchemas & number]: `${K}` extends `2${string}` ? StandardSchemaV1.InferOutput<TSchemas[K]> : never
+}[keyof TSchemas & number]
+
+type StepFn = (ctx: RequestContext & Context, traceSpan: TraceSpan, mode?: 'request' | 'invoke') => Promise<unknown>
+
+/** Run `fn` in a child span of the route span. Runs `fn` as is without a tracer. */
+type TraceSpan = <T>(name: string, fn: () => Promise<T>) => Promise<T>
+
+const noopTraceSpan: TraceSpan = (_, fn) => fn()
+
+/** Runs the downstream steps with `ctx` merged into the context and returns their response */
+export type Next<TNewContext extends Context = {}> = (
+  ...args: {} extends TNewContext ? [ctx?: TNewContext] : [ctx: TNewContext]
+) => Promise<Response>
+
+/**
+ * Middleware for `.use()`. Declare the context it requires with `TContext` and the
+ * context it adds with `TNewContext` to reuse it across routes:
+ *
+ * ```ts
+ * const withTransaction: Middleware<{}, { tx: Transaction }> = (ctx, next) =>
+ *   db.transaction((tx) => next({ tx }))
+ * ```
+ */
+export type Middleware<TContext = {}, TNewContext extends Context = {}> = (
+  ctx: RequestContext & TContext,
+  next: Next<TNewContext>,
+) => Promise<Response | void> | Response | void
 
 // Enhanced RouteBuilder that tracks parse payloads for type extraction
 export class RouteBuilder<TContext = EmptyContext, TAccumulatedPayloads = {}> {
   private steps: (
     | { type: 'prepare' | 'parse', stepFn: StepFn, payload?: unknown }
+    | { type: 'use', middlewareFn: Middleware<any, any> }
+    | { type: 'authorize', rule: AuthorizeRule<any> }
     | { type: 'extend', payload: { name: string } }
     | { type: 'handle' }
   )[] = []
-  private currentStep: Record<number, 'ok' | 'error' | ''> = {}
   private extends: string[] = []
-  private routeError?: RouteError
+  private responses?: ResponseSchemas
+  private errorCodes?: ErrorCodeStatuses
 
   constructor(private routeOptions: RouteOptions) {
     this.routeOptions = routeOptions || {}
@@ -163,18 +363,74 @@ export class RouteBuilder<TContext = EmptyContext, TAccumulatedPayloads = {}> {
     })
     extendBuilder.steps = [...this.steps, { type: 'extend', payload: { name: opts.name } }]
     extendBuilder.extends = this.routeOptions.name ? [...this.extends, this.routeOptions.name] : [...this.extends]
+    extendBuilder.responses = this.responses
+    extendBuilder.errorCodes = this.errorCodes
     return extendBuilder
   }
 
   prepare<TNewContext extends Context>(
-    prepareFn: (ctx: { request: Request } & TContext) => Promise<TNewContext | undefined | void> | TNewContext | undefined | void
+    prepareFn: (ctx: RequestContext & TContext) => Promise<TNewContext | undefined | void> | TNewContext | undefined | void
   ) {
     const builder = new RouteBuilder({ ...this.routeOptions })
     builder.steps = [...this.steps, { type: 'prepare', stepFn: prepareFn as StepFn }]
     builder.extends = [...this.extends]
+    builder.responses = this.responses
+    builder.errorCodes = this.errorCodes
+    return builder as RouteBuilder<MergeContexts<TContext, TNewContext>, TAccumulatedPayloads>
+  }
+
+  /**
+   * Add a middleware that wraps the rest of the chain. `next()` runs the
+   * downstream steps and the handler, and returns their response. Context passed
+   * to `next()` is merged into the downstream context, like `prepare`. Example:
+   *
+   * ```ts
+   * createRoute().use(async (ctx, next: Next<{ startedAt: number }>) => {
+   *   const response = await next({ startedAt: Date.now() })
+   *   response.headers.set('x-response-time', `${Date.now() - startedAt}ms`)
+   *   return response
+   * })
+   * ```
+   */
+  use<TNewContext extends Context = {}>(middlewareFn: Middleware<TContext, TNewContext>) {
+    const builder = new RouteBuilder({ ...this.routeOptions })
+    builder.steps = [...this.steps, { type: 'use', middlewareFn: middlewareFn as Middleware<any, any> }]
+    builder.extends = [...this.extends]
+    builder.responses = this.responses
+    builder.errorCodes = this.errorCodes
     return builder as RouteBuilder<MergeContexts<TContext, TNewContext>, TAccumulatedPayloads>
   }
 
+  /**
+   * Deny the request with 403 unless the check passes. Place it after the parse
+   * step that provides what it checks, eg. `auth` and `resource`:
+   *
+   * ```ts
+   * createRoute()
+   *   .parse({ auth: bearerJwt({ secret }), resource: (ctx) => getProject(ctx.pathParams.id) })
+   *   .authorize((ctx) => ctx.parsed.resource.ownerId === ctx.parsed.auth.id)
+   *   .authorize(requirePlan(['pro', 'team']))
+   * ```
+   *
+   * Rules from `requireRole`, `requirePlan`, and `definePolicies` list their
+   * permission in `getRouteInfo().permissions`. Pass `permission` to describe a check.
+   * `RouteError`s thrown by a check are sent as is, other errors fail with 500.
+   */
+  authorize(
+    check: AuthorizeRule<TContext> | AuthorizeRule<TContext>['check'],
+    opts: { permission?: string, message?: string } = {},
+  ) {
+    const rule: AuthorizeRule<any> = typeof check === 'function'
+      ? { permission: opts.permission ?? 'custom', message: opts.message, check }
+      : { ...check, ...opts }
+    const builder = new RouteBuilder({ ...this.routeOptions })
+    builder.steps = [...this.steps, { type: 'authorize', rule }]
+    builder.extends = [...this.extends]
+    builder.responses = this.responses
+    builder.errorCodes = this.errorCodes
+    return builder as RouteBuilder<TContext, TAccumulatedPayloads>
+  }
+
   // Parse method with proper overloads
   parse<TFields extends ParseFields<TContext>>(
     fields: TFields
@@ -182,21 +438,33 @@ export class RouteBuilder<TContext = EmptyContext, TAccumulatedPayloads = {}> {
     const builder = new RouteBuilder({ ...this.routeOptions })
     builder.steps = [...this.steps]
     builder.extends = [...this.extends]
+    builder.responses = this.responses
+    builder.errorCodes = this.errorCodes
+    const compiledPath = typeof fields.path === 'string' ? compilePathPattern(fields.path) : undefined
+    const maxBodySize = this.routeOptions.maxBodySize ?? DEFAULT_MAX_BODY_SIZE
     builder.steps.push({
       type: 'parse',
       payload: fields,
-      stepFn: async (ctx) => {
+      stepFn: async (ctx, traceSpan, mode) => {
         const parsedResults: Record<string, unknown> = {}
         const req = ctx.request
         for (const [key, value] of Object.entries(fields)) {
           const field = key as PredefinedParseFields
-          if (typeof value === 'function' && PREDEFINED_PARSE_FIELDS.includes(field)) {
-            try {
+          if ((typeof value === 'function' || isStandardSchema(value)) && PREDEFINED_PARSE_FIELDS.includes(field)) {
+            parsedResults[key] = await traceSpan(`parse ${key}`, async () => {
+              // Errors from reading the request (eg. unsupported body) are thrown as is
               let newCtx: Record<string, unknown>
               if (field === 'query') {
                 newCtx = parseQuery(ctx)
               } else if (field === 'body') {
-                newCtx = await parseBody(ctx)
+                newCtx = await parseBody(ctx, { maxBodySize })
+              } else if (field === 'webhook') {
+                newCtx = { ...ctx, rawBody: await readRawBody(ctx, { maxBodySize }) }
+              } else if (field === 'tenant') {
+                // Path params from the framework and from `path`, in this or an earlier parse step
+                const parsedPath = (ctx.parsed as { path?: { params: Record<string, PathParamValue> } } | undefined)?.path
+                const pathParams = { ...ctx.pathParams as Record<string, PathParamValue>, ...parsedPath?.params, ...(parsedResults.path as typeof parsedPath)?.params }
+                newCtx = { ...ctx, pathParams }
               } else if (field === 'resource') {
                 newCtx = { ...ctx }
               } else if (field === 'auth') {
@@ -209,21 +477,31 @@ export class RouteBuilder<TContext = EmptyContext, TAccumulatedPayloads = {}> {
                 newCtx = { ...ctx }
               }
 
-              const result = await (value as (ctx: unknown) => Promise<unknown>)(newCtx)
-              parsedResults[key] = result
-            } catch (error) {
-              throw new RouteError(`Error parsing \`${key}\``, {
-                errorCode: key === 'auth' ? 'AUTH_ERROR' : 'PARSE_ERROR',
-                errorMessage: (error as Error).message,
-                httpStatus: key === 'auth' ? 401 : key === 'method' ? 405 : key === 'path' ? 404 : 400,
-                cause: error as Error
-              })
-            }
+              if (isStandardSchema(value)) {
+                return validateSchema(key, value, schemaInput(field, newCtx))
+              }
+
+              try {
+                return await (value as (ctx: unknown) => Promise<unknown>)(newCtx)
+              } catch (error) {
+                // Eg. from `ctx.fail()`
+                if (isRouteError(error)) throw error
+                throw new RouteError(`Error parsing \`${key}\``, {
+                  errorCode: key === 'auth' ? 'AUTH_ERROR' : 'PARSE_ERROR',
+                  errorMessage: (error as Error).message,
+                  httpStatus: key === 'auth' ? 401 : key === 'method' ? 405 : key === 'path' ? 404 : 400,
+                  cause: error as Error,
+                  details: issuesFromError(error),
+                })
+              }
+            })
           } else if (key === 'method') {
             // Handle method validation
             const method = req.method as RouteMethod
             const allowedMethods = Array.isArray(value) ? value : [value as RouteMethod]
-            if (!allowedMethods.includes(method)) {
+            // `HEAD` is a `GET` without the response body
+            const isHeadOfGet = method === 'HEAD' && allowedMethods.includes('GET')
+            if (!allowedMethods.includes(method) && !isHeadOfGet) {
               throw new RouteError("Error parsing `method`", {
                 errorCode: 'PARSE_ERROR',
                 errorMessage: `Method ${method} not allowed. Expected: ${allowedMethods.join(', ')}`,
@@ -233,62 +511,12 @@ export class RouteBuilder<TContext = EmptyContext, TAccumulatedPayloads = {}> {
             }
             parsedResults.method = method
           } else if (key === 'path') {
-            // Handle path validation and parameter extraction
-            const url = new URL(req.url)
-            const requestPath = url.pathname
-            const expectedPath = value as string
-            
-            // Check if expectedPath has parameters (contains [param] syntax)
-            const paramPattern = /\[([^\]]+)\]/g
-            const paramMatches = Array.from(expectedPath.matchAll(paramPattern))
-            
-            // When skip path checking when `.invoke` is used
-            const isInvokePath = requestPath === '/invoke'
-
-            if (paramMatches.length > 0) {
-              // Convert path pattern to regex for matching
-              // e.g., '/api/users/[id]' becomes '/api/users/([^/]+)'
-              let pathRegexPattern = expectedPath.replace(/\[([^\]]+)\]/g, '([^/]+)')
-              pathRegexPattern = `^${pathRegexPattern}$`
-              const pathRegex = new RegExp(pathRegexPattern)
-              
-              const match = requestPath.match(pathRegex)
-
-              if (match) {
-                // Extract parameter values
-                const params: Record<string, string> = {}
-                paramMatches.forEach((paramMatch, index) => {
-                  const paramName = paramMatch[1] // The parameter name inside [brackets]
-                  const paramValue = match[index + 1] // The captured value (+1 because match[0] is the full match)
-                  params[paramName] = paramValue
-                })
-                
-                parsedResults.path = {
-                  matched: expectedPath,
-                  params
-                }
-              } else if (!isInvokePath) {
-                const errorMessage = `Path '${requestPath}' does not match expected path '${expectedPath}'`
-                throw new RouteError(`Error parsing 'path': ${errorMessage}`, {
-                  errorCode: 'PARSE_ERROR',
-                  errorMessage,
-                  httpStatus: 404,
-                  cause: new Error(`Path mismatch: ${errorMessage}`)
-                })
-              }
-            } else {
-              // No parameters in path, do exact match
-              if (requestPath !== expectedPath && !isInvokePath) {
-                const errorMessage = `Path '${requestPath}' does not match exact path '${expectedPath}'`
-                throw new RouteError(`Error parsing 'path': ${errorMessage}`, {
-                  errorCode: 'PARSE_ERROR',
-                  errorMessage,
-                  httpStatus: 404,
-                  cause: new Error(`Path mismatch: ${errorMessage}`)
-                })
-              }
-              parsedResults.path = { matched: expectedPath, params: {} }
-            }
+            const params = resolvePathParams(compiledPath!, {
+              requestPath: new URL(req.url).pathname,
+              frameworkParams: ctx.pathParams as Record<string, string | string[]> | undefined,
+              isInvoke: mode === 'invoke',
+            })
+            parsedResults.path = { matched: value as string, params }
           }
         }
 
@@ -298,26 +526,122 @@ export class RouteBuilder<TContext = EmptyContext, TAccumulatedPayloads = {}> {
     return builder as RouteBuilder<ParseResult<TContext, TFields>, MergeParseFields<TAccumulatedPayloads, TFields>>
   }
 
-  handle<TResponse>(
-    handlerFn: (ctx: { request: Request } & TContext) => Promise<TResponse> | TResponse
+  /**
+   * Declare response body schemas by status. The handler can then return
+   * `{ status, body }` for any declared status, or the 200 body as is. Example:
+   *
+   * ```ts
+   * createRoute()
+   *   .returns({ 200: User, 404: NotFound })
+   *   .handle(async (ctx) => {
+   *     const user = await findUser(ctx.parsed.path.params.id)
+   *     if (!user) return { status: 404, body: { message: 'User not found' } }
+   *     return user
+   *   })
+   * ```
+   *
+   * Results are validated outside production (see `validateResponses`) and fail
+   * with a 500 `RESPONSE_VALIDATION_ERROR`. `Response` objects aren't validated.
+   */
+  returns<TSchemas extends ResponseSchemas>(schemas: TSchemas) {
+    const builder = new RouteBuilder({ ...this.routeOptions })
+    builder.steps = [...this.steps]
+    builder.extends = [...this.extends]
+    builder.responses = { ...this.responses, ...schemas }
+    builder.errorCodes = this.errorCodes
+    return builder as RouteBuilder<TContext, MergeParseFields<Omit<TAccumulatedPayloads, 'returns'>, { returns: TSchemas }>>
+  }
+
+  /**
+   * Declare the error codes of the route with their HTTP status. Steps and the
+   * handler get `ctx.fail(code, details?, message?)` to throw them. Example:
+   *
+   * ```ts
+   * createRoute()
+   *   .errors({ NOT_FOUND: 404, PLAN_LIMIT: 402 })
+   *   .handle(async (ctx) => {
+   *     if (await isOverLimit()) ctx.fail('PLAN_LIMIT', { limit: 5 }, 'Upgrade to add more projects')
+   *     return createProject()
+   *   })
+   * ```
+   *
+   * The codes are exposed in `inferRouteType`, so `createClient` types `error.code`.
+   */
+  errors<const TErrors extends ErrorCodeStatuses>(errors: TErrors) {
+    type TMergedErrors = TAccumulatedPayloads extends { errors: infer E } ? Omit<E, keyof TErrors> & TErrors : TErrors
+    const builder = new RouteBuilder({ ...this.routeOptions })
+    builder.steps = [...this.steps]
+    builder.extends = [...this.extends]
+    builder.responses = this.responses
+    builder.errorCodes = { ...this.errorCodes, ...errors }
+    return builder as unknown as RouteBuilder<
+      MergeContexts<Omit<TContext, 'fail'>, { fail: Fail<TMergedErrors> }>,
+      MergeParseFields<Omit<TAccumulatedPayloads, 'errors'>, { errors: TMergedErrors }>
+    >
+  }
+
+  handle<TResponse extends HandlerReturn<TAccumulatedPayloads>>(
+    handlerFn: (ctx: RequestContext & TContext) => Promise<TResponse> | TResponse
   ): RouteHandler<TContext, TResponse, TAccumulatedPayloads> {
     const { onRequest, onResponse, onError, requestObject } = this.routeOptions
     const routeBuilder = this
     routeBuilder.steps.push({ type: 'handle' })
+    const requestIdHeader = routeBuilder.routeOptions.requestIdHeader || 'x-request-id'
+    const corsHandler = routeBuilder.routeOptions.cors ? cors(routeBuilder.routeOptions.cors) : undefined
+    const { tracer } = routeBuilder.routeOptions
+    const routeSpanName = [...routeBuilder.extends, routeBuilder.routeOptions.name].filter(Boolean).join(' → ') || 'route'
+    const routePath = routeBuilder.getRouteDefinition().path
+    const handleStepIndex = routeBuilder.steps.length - 1
+    const { responses, errorCodes } = routeBuilder
+    const fail = errorCodes && createFail(errorCodes)
+    const validateResponses = responses && (routeBuilder.routeOptions.validateResponses ?? !isProduction())
+    const { serializers, cache, compress } = routeBuilder.routeOptions
+    const compressOptions = compress === true ? {} : compress || undefined
+    // Run the handler as the last step and record it in the execution. Errors are
+    // wrapped once they leave the steps, so middleware can still catch the original.
+    const runHandler = async (ctx: RequestContext & Context, execution: RouteExecution, traceSpan = noopTraceSpan) => {
+      const startedAt = performance.now()
+      try {
+        const result = await traceSpan('handle', async () => handlerFn(ctx as RequestContext & TContext))
+        if (validateResponses) await validateResponse(result, responses)
+        recordStep(execution, handleStepIndex, 'ok', startedAt)
+        return result
+      } catch (error) {
+        recordStep(execution, handleStepIndex, 'error', startedAt)
+        throw error
+      }
+    }
+
     async function routeHandler(...args: unknown[]): Promise<TResponse> {
       // Build context by executing prepare steps
       let requestObj = {} as MapRequestObject
-      let context = {} as Context & RequestWithPathParams
-      let stepCounter = 0
+      let context = {} as Context & RequestWithPathParams & { requestId: string }
+      // Latest context built by the steps, also when a step fails
+      const state = { context }
+      const execution: RouteExecution = { startedAt: Date.now(), steps: {} }
+      const routeSpan = tracer?.startSpan(routeSpanName, {
+        attributes: { 'route.name': routeBuilder.routeOptions.name ?? '', ...(routePath && { 'http.route': routePath }) },
+      })
+      const traceSpan: TraceSpan = tracer && routeSpan
+        ? (name, fn) => runInSpan(tracer, routeSpan, name, fn)
+        : noopTraceSpan
+      const finalizeResponse = async (response: Response) => {
+        const compressed = compressOptions && context.request ? await compressResponse(context.request, response, compressOptions) : response
+        const withId = setResponseHeaders(compressed, { [requestIdHeader]: context.requestId })
+        const decorated = corsHandler && context.request ? await corsHandler.decorate(context.request, withId) : withId
+        routeSpan?.setAttribute('http.response.status_code', decorated.status)
+        return decorated as unknown as TResponse
+      }
       try {
         try {
           requestObj = requestObject ? requestObject(...args) : mapRequestObject(...args)
           if (!requestObj.request || !(requestObj.request instanceof Request))
             throw new Error('Invalid request object')
+          // Next.js 15 passes `params` as a Promise
+          if (requestObj.pathParams instanceof Promise) requestObj.pathParams = await requestObj.pathParams
           if (requestObj.pathParams && requestObj.pathParams !== null && typeof requestObj.pathParams !== 'object')
             throw new Error('Invalid path params')
         } catch (error) {
-          routeBuilder.currentStep[routeBuilder.steps.length - 1] = 'error'
           throw new RouteError("Invalid request object", {
             errorCode: 'REQUEST_MAPPING_ERROR',
             errorMessage: `Failed to extract Request object: ${(error as Error).message}`,
@@ -327,97 +651,68 @@ export class RouteBuilder<TContext = EmptyContext, TAccumulatedPayloads = {}> {
         }
 
         context.request = requestObj.request
-        context.pathParams = requestObj.pathParams
-        routeBuilder.routeOptions.requestFormat = requestObj.requestFormat
+        context.pathParams = requestObj.pathParams as RequestWithPathParams['pathParams']
+        context.requestId = resolveRequestId(requestObj.request, routeBuilder.routeOptions)
+        if (fail) context.fail = fail
+        execution.requestFormat = requestObj.requestFormat
+        routeSpan?.setAttribute('http.request.method', context.request.method)
+        routeSpan?.setAttribute('url.path', new URL(context.request.url).pathname)
+        routeSpan?.setAttribute('request.id', context.requestId)
+
+        if (corsHandler && isPreflightRequest(context.request)) {
+          const preflightResponse = await corsHandler(context.request) as Response
+          return setResponseHeaders(preflightResponse, { [requestIdHeader]: context.requestId }) as unknown as TResponse
+        }
 
         if (onRequest) {
           const maybeEarlyResponse = await onRequest(context)
           // Short circuit if onRequest returns a response
           if (maybeEarlyResponse instanceof Response) {
-            return maybeEarlyResponse as unknown as TResponse
+            return await finalizeResponse(maybeEarlyResponse)
           }
         }
 
-        for (const step of routeBuilder.steps) {
-          if (step.type === 'prepare') {
-            try {
-              const result = await step.stepFn(context)
-              if (result && typeof result === 'object') {
-                context = { ...context, ...result }
-              }
-            } catch (error) {
-              routeBuilder.currentStep[stepCounter] = 'error'
-              routeBuilder.routeError = isRouteError(error)
-                ? error
-                : new RouteError("Error when preparing request", {
-                  errorCode: 'PREPARE_ERROR',
-                  errorMessage: (error as Error).message,
-                  httpStatus: 400,
-                  cause: error as Error,
-                })
-              throw routeBuilder.routeError
-            }
-          } else if (step.type === 'parse') {
-            try {
-              const result = await step.stepFn(context)
-              if (result && typeof result === 'object') {
-                if (!context.parsed) {
-                  context.parsed = {}
-                }
-                const parsedContext = context.parsed as Record<string, unknown>
-                const newResults = result as Record<string, unknown>
-
-                for (const [fieldName, fieldResult] of Object.entries(newResults)) {
-                  // Last wins approach - simply overwrite
-                  parsedContext[fieldName] = fieldResult
-                }
-                context.parsed = parsedContext
-              }
-            } catch (error) {
-              routeBuilder.currentStep[stepCounter] = 'error'
-              routeBuilder.routeError = isRouteError(error)
-                ? error
-                : new RouteError("Error when parsing request", {
-                  errorCode: 'PARSE_ERROR',
-                  errorMessage: (error as Error).message,
-                  httpStatus: 400,
-                  cause: error as Error,
-                })
-              throw routeBuilder.routeError
-            }
-          }
-          routeBuilder.currentStep[stepCounter] = 'ok'
-          stepCounter++
-        }
-
-        const response = await handlerFn(context as RequestWithPathParams & TContext)
-        const wrappedResponse = response instanceof Response
-          ? response
-          : new Response(JSON.stringify(response), {
-            status: 200,
-            headers: { 'Content-Type': 'application/json' }
+        const wrappedResponse = await routeBuilder.runSteps(context, 0, { mode: 'request', state, execution, traceSpan }, async (ctx) => {
+          if (serializers && !acceptsAnySerializer(ctx.request.headers.get('accept'), serializers)) throw notAcceptable(serializers)
+          const isSafeMethod = ['GET', 'HEAD'].includes(ctx.request.method)
+          if (cache?.resourceETag && !isSafeMethod) assertIfMatch(ctx.request, await cache.resourceETag(ctx))
+          const response = toResponse(await runHandler(ctx, execution, traceSpan), { responses, serializers, request: ctx.request })
+          if (!cache) return response
+          return conditionalResponse(ctx.request, response, {
+            cacheControl: cache.cacheControl,
+            etag: cache.etag,
+            lastModified: cache.lastModified?.(ctx),
           })
+        })
+        context = state.context
         context.response = wrappedResponse
 
         if (onResponse) {
-          const customResponse = await onResponse(context as RequestWithPathParams & { response: Response })
+          const customResponse = await onResponse({ ...context, response: wrappedResponse, execution })
           if (customResponse instanceof Response) {
-            routeBuilder.currentStep[routeBuilder.steps.length - 1] = 'ok'
-            return customResponse as unknown as TResponse
+            return await finalizeResponse(customResponse)
           }
         }
 
-        routeBuilder.currentStep[routeBuilder.steps.length - 1] = 'ok'
-        return wrappedResponse as unknown as TResponse
+        return await finalizeResponse(wrappedResponse)
       } catch (error) {
-        routeBuilder.currentStep[routeBuilder.steps.length - 1] = 'error'
+        context = state.context
+        // Request mapping failed before the request ID was resolved
+        context.requestId ??= resolveRequestId(undefined, routeBuilder.routeOptions)
+        // Errors from prepare, parse, and middleware are already wrapped
+        const err = execution.error = toRouteError(error, "Internal Server Error", { errorCode: 'HANDLER_ERROR', httpStatus: 500 })
+        ;(err as any).routeInfo = routeBuilder.getRouteInfo(execution)
+        if (routeSpan) {
+          routeSpan.recordException(err)
+          routeSpan.setAttribute('error.type', err.errorCode)
+          // Client errors don't fail the server span, following OpenTelemetry HTTP conventions
+          if (err.httpStatus >= 500) routeSpan.setStatus({ code: SpanStatusCode.ERROR, message: err.message })
+        }
         if (onError) {
-          const err = error as RouteError
-          (err as any).routeInfo = routeBuilder.getRouteInfo()
-          const response = await onError({ ...context, error: err })
+          const response = await onError({ ...context, error: err, execution })
           if (response instanceof Response) {
             // TODO: fix type. don't infer return value from happy path's type if there's error. should we add `errorValue`?
-            return response as unknown as TResponse
+            return await finalizeResponse(response)
           }
         }
 
@@ -426,129 +721,234 @@ export class RouteBuilder<TContext = EmptyContext, TAccumulatedPayloads = {}> {
           throw error
         }
 
-        const err = error as RouteError
         const json = JSON.stringify({
           error: {
             message: `${err.message}: ${err.errorMessage}`,
-            code: err.errorCode
+            code: err.errorCode,
+            requestId: context.requestId,
+            details: err.details,
           }
         })
-        return new Response(json, { status: err.httpStatus }) as TResponse
+        return await finalizeResponse(new Response(json, {
+          status: err.httpStatus,
+          headers: { ...err.headers, 'Content-Type': 'application/json' }
+        }))
+      } finally {
+        routeSpan?.end()
       }
     }
 
     // routeHandler.invoke = async (contextOverride?: Partial<TContext>): Promise<TResponse> => {
-    routeHandler.invoke = async (contextOverride?: Partial<TContext>): Promise<TResponse> => {
+    routeHandler.invoke = async (contextOverride?: Partial<TContext> & Pick<RequestWithPathParams, 'pathParams'>): Promise<TResponse> => {
       const invokePath = (contextOverride as Context)?.path || '/invoke' 
       const mockRequest = new Request(`http://localhost${invokePath}`)
+      const requestId = (contextOverride as Context)?.requestId as string || resolveRequestId(mockRequest, routeBuilder.routeOptions)
+      const hasMiddleware = routeBuilder.steps.some(step => step.type === 'use')
+      const execution: RouteExecution = { startedAt: Date.now(), steps: {} }
       try {
-        let context: { request: Request } & Context = { request: mockRequest, ...contextOverride }
-        let stepCounter = 0
-        for (const step of routeBuilder.steps) {
-          if (step.type === 'parse' && !context?.skipParse) {
-            try {
-              const result = await step.stepFn(context)
-              if (result && typeof result === 'object') {
-                if (!context.parsed) {
-                  context.parsed = {}
-                }
-                const parsedContext = context.parsed as Record<string, unknown>
-                const newResults = result as Record<string, unknown>
-
-                for (const [fieldName, fieldResult] of Object.entries(newResults)) {
-                  // Last wins approach - simply overwrite. Keep override from invoke if exists.
-                  if (contextOverride && 'parsed' in contextOverride && fieldName in (contextOverride as any)?.parsed) continue
-                  parsedContext[fieldName] = fieldResult
-                }
-                context.parsed = parsedContext
-              }
-            } catch (error) {
-              routeBuilder.currentStep[stepCounter] = 'error'
-              routeBuilder.routeError = isRouteError(error)
-                ? error
-                : new RouteError("Error when parsing request", {
-                  errorCode: 'PARSE_ERROR',
-                  errorMessage: (error as Error).message,
-                  httpStatus: 500,
-                  cause: error as Error,
-                })
-              throw routeBuilder.routeError
-            }
-          } else if (step.type === 'prepare' && !context?.skipPrepare) {
-            try {
-              const result = await step.stepFn(context)
-              if (result && typeof result === 'object') {
-                // Override from invoke takes precedence over prepare step
-                context = { ...result, ...context }
-              }
-            } catch (error) {
-              routeBuilder.currentStep[stepCounter] = 'error'
-              routeBuilder.routeError = isRouteError(error)
-                ? error
-                : new RouteError("Internal Server Error: Error in prepare step", {
-                  errorCode: 'PREPARE_ERROR',
-                  errorMessage: (error as Error).message,
-                  httpStatus: 500,
-                  cause: error as Error,
-                })
-              throw routeBuilder.routeError
-            }
-          }
-          routeBuilder.currentStep[stepCounter] = 'ok'
-          stepCounter++
-        }
-
-        const response = await handlerFn(context as { request: Request } & TContext)
-        return response
+        const context: RequestContext & Context = { request: mockRequest, requestId, ...(fail && { fail }), ...contextOverride }
+        let handlerResult: TResponse | undefined
+        let handlerResponse: Response | undefined
+        const response = await routeBuilder.runSteps(context, 0, { mode: 'invoke', contextOverride, execution }, async (ctx) => {
+          handlerResult = await runHandler(ctx, execution)
+          // Middleware expect a Response from `next()`. Only serialize the result when there is one.
+          handlerResponse = hasMiddleware ? toResponse(handlerResult, { responses, serializers, request: ctx.request }) : INVOKE_RESPONSE
+          return handlerResponse
+        })
+        if (response === handlerResponse) return handlerResult as TResponse
+        // Response replaced by a middleware
+        return await parseResponseBody(response) as TResponse
       } catch (error) {
-        routeBuilder.routeError = isRouteError(error)
-          ? error
-          : new RouteError("Internal Server Error", {
-            errorCode: 'HANDLER_ERROR',
-            errorMessage: (error as Error).message,
-            httpStatus: 500,
-            cause: error as Error,
-          })
+        const err = execution.error = toRouteError(error, "Internal Server Error", { errorCode: 'HANDLER_ERROR', httpStatus: 500 })
+        ;(err as any).routeInfo = routeBuilder.getRouteInfo(execution)
         if (onError) {
-          const err = error as RouteError
-          (err as any).routeInfo = routeBuilder.getRouteInfo()
-          // TODO: handle `pathParams` in .invoke
-          const response = await onError({ request: mockRequest, pathParams: undefined, error: err })
+          const response = await onError({ request: mockRequest, pathParams: contextOverride?.pathParams, requestId, error: err, execution })
           if (response instanceof Response) {
-            const text = await response.text()
-            try {
-              return JSON.parse(text) as unknown as TResponse
-            } catch (_) {
-              return text as unknown as TResponse
-            }
+            return await parseResponseBody(response) as TResponse
           }
         }
-        throw routeBuilder.routeError
+        throw err
       }
     }
 
     routeHandler.inferRouteType = {} as RouteTypeInfo<TContext, TResponse, TAccumulatedPayloads>
 
-    routeHandler.getRouteInfo = () => routeBuilder.getRouteInfo()
+    routeHandler.getRouteInfo = (execution?: RouteExecution) => routeBuilder.getRouteInfo(execution)
+
+    routeHandler.getRouteDefinition = () => routeBuilder.getRouteDefinition()
 
     return routeHandler as RouteHandler<TContext, TResponse, TAccumulatedPayloads>
   }
 
-  getRouteInfo() {
+  /**
+   * Run the steps from `index`, then `final` with the built context. `use` steps
+   * wrap the rest of the chain: their `next()` runs the remaining steps.
+   */
+  private async runSteps(
+    context: RequestContext & Context,
+    index: number,
+    opts: { mode: 'request' | 'invoke', contextOverride?: Context, state?: { context: Context }, execution: RouteExecution, traceSpan?: TraceSpan },
+    final: (ctx: RequestContext & Context) => Promise<Response>,
+  ): Promise<Response> {
+    const isInvoke = opts.mode === 'invoke'
+    const { execution, traceSpan = noopTraceSpan } = opts
+    if (opts.state) opts.state.context = context
+    for (let stepCounter = index; stepCounter < this.steps.length; stepCounter++) {
+      const step = this.steps[stepCounter]
+      const startedAt = performance.now()
+      if (step.type === 'use') {
+        let nextResponse: Response | undefined
+        let downstreamError: unknown
+        const next = async (newContext?: Context) => {
+          try {
+            nextResponse = await this.runSteps({ ...context, ...newContext }, stepCounter + 1, opts, final)
+            return nextResponse
+          } catch (error) {
+            downstreamError = error
+            throw error
+          }
+        }
+        try {
+          const response = await step.middlewareFn(context, next)
+          if (!(response instanceof Response) && !nextResponse) {
+            throw new Error('Middleware must return a Response or call `next()`')
+          }
+          recordStep(execution, stepCounter, 'ok', startedAt)
+          return response instanceof Response ? response : nextResponse!
+        } catch (error) {
+          recordStep(execution, stepCounter, 'error', startedAt)
+          // Errors from the downstream steps are already handled
+          if (error === downstreamError) throw error
+          throw execution.error = toRouteError(error, "Error in middleware", { errorCode: 'MIDDLEWARE_ERROR', httpStatus: 500 })
+        }
+      } else if (step.type === 'prepare') {
+        if (isInvoke && context.skipPrepare) {
+          recordStep(execution, stepCounter, 'skipped', startedAt)
+          continue
+        }
+        try {
+          const result = await traceSpan('prepare', () => step.stepFn(context, traceSpan))
+          if (result && typeof result === 'object') {
+            // Override from invoke takes precedence over prepare step
+            context = isInvoke ? { ...result, ...context } : { ...context, ...result }
+            if (opts.state) opts.state.context = context
+          }
+        } catch (error) {
+          recordStep(execution, stepCounter, 'error', startedAt)
+          throw execution.error = toRouteError(error, isInvoke ? "Internal Server Error: Error in prepare step" : "Error when preparing request", {
+            errorCode: 'PREPARE_ERROR',
+            httpStatus: isInvoke ? 500 : 400,
+          })
+        }
+      } else if (step.type === 'parse') {
+        if (isInvoke && context.skipParse) {
+          recordStep(execution, stepCounter, 'skipped', startedAt)
+          continue
+        }
+        try {
+          const result = await step.stepFn(context, traceSpan, opts.mode)
+          if (result && typeof result === 'object') {
+            if (!context.parsed) {
+              context.parsed = {}
+            }
+            const parsedContext = context.parsed as Record<string, unknown>
+            const newResults = result as Record<string, unknown>
+            const overrideParsed = opts.contextOverride?.parsed as Record<string, unknown> | undefined
+
+            for (const [fieldName, fieldResult] of Object.entries(newResults)) {
+              // Last wins approach - simply overwrite. Keep override from invoke if exists.
+              if (overrideParsed && fieldName in overrideParsed) continue
+              parsedContext[fieldName] = fieldResult
+            }
+            context.parsed = parsedContext
+          }
+        } catch (error) {
+          recordStep(execution, stepCounter, 'error', startedAt)
+          throw execution.error = toRouteError(error, "Error when parsing request", {
+            errorCode: 'PARSE_ERROR',
+            httpStatus: isInvoke ? 500 : 400,
+          })
+        }
+      } else if (step.type === 'authorize') {
+        let isAllowed = false
+        try {
+          isAllowed = await traceSpan('authorize', async () => step.rule.check(context))
+        } catch (error) {
+          recordStep(execution, stepCounter, 'error', startedAt)
+          // A failing check, eg. the database is down, isn't a permission denial
+          throw execution.error = toRouteError(error, "Error when authorizing request", { errorCode: 'AUTHORIZE_ERROR', httpStatus: 500 })
+        }
+        if (!isAllowed) {
+          recordStep(execution, stepCounter, 'error', startedAt)
+          throw execution.error = new RouteError("Forbidden", {
+            errorCode: 'UNAUTHORIZED',
+            errorMessage: step.rule.message ?? `Requires permission ${step.rule.permission}`,
+            httpStatus: 403,
+          })
+        }
+      } else {
+        // `extend` marks a boundary, `handle` runs in `final`
+        continue
+      }
+      recordStep(execution, stepCounter, 'ok', startedAt)
+    }
+    return final(context)
+  }
+
+  /**
+   * Route name, extends, and steps. Pass an execution record to include the
+   * step statuses and request format of that invocation, eg. `parse (error)`.
+   */
+  getRouteInfo(execution?: RouteExecution): RouteInfo {
     const steps = [
       '→ createRoute',
       ...this.steps.map((step, i) => {
         if (step.type === 'extend') return `→ ${step.payload.name}`
-        return `${step.type}${this.currentStep[i] ? ` (${this.currentStep[i]})` : ''}`
+        const status = execution?.steps[i]?.status
+        return `${step.type}${status ? ` (${status})` : ''}`
       })
     ]
+    const permissions = this.steps.flatMap(step => step.type === 'authorize' ? [step.rule.permission] : [])
     return {
       name: this.routeOptions.name,
       extends: this.extends,
       steps: steps,
-      requestFormat: this.routeOptions.requestFormat,
+      ...(permissions.length > 0 && { permissions }),
+      requestFormat: execution?.requestFormat,
     }
   }
+
+  getRouteDefinition(): RouteDefinition {
+    const definition: RouteDefinition = {
+      name: this.routeOptions.name,
+      fields: [],
+      schema: {},
+      validatedFields: [],
+      cors: !!this.routeOptions.cors,
+      responses: this.responses,
+      errors: this.errorCodes,
+    }
+    for (const step of this.steps) {
+      if (step.type === 'authorize') (definition.permissions ??= []).push(step.rule.permission)
+      if (step.type !== 'parse') continue
+      const { path, method, schema, ...fields } = step.payload as ParseFields<unknown>
+      if (typeof path === 'string') definition.path = path
+      if (method) definition.methods = Array.isArray(method) ? [...method] : [method as RouteMethod]
+      for (const [field, value] of Object.entries(fields)) {
+        if (!isStandardSchema(value)) continue
+        definition.schema[field as keyof ParseSchemas] = value
+        if (!definition.validatedFields.includes(field as PredefinedParseFields)) definition.validatedFields.push(field as PredefinedParseFields)
+      }
+      if (schema) definition.schema = { ...definition.schema, ...schema }
+      if (typeof fields.auth === 'function') {
+        definition.securitySchemes = (fields.auth as Partial<AuthAdapter<unknown>>).securitySchemes
+      }
+      for (const field of PREDEFINED_PARSE_FIELDS) {
+        if (field in (step.payload as object) && !definition.fields.includes(field)) definition.fields.push(field)
+      }
+    }
+    return definition
+  }
 }
 
 // Enhanced createRoute with single-parameter approach
@@ -557,29 +957,57 @@ export const createRoute = (routeOptions: RouteOptions = {}) => {
 }
 
 // Enhanced route handler interface
-interface RouteHandler<TContext, TResponse, TAccumulatedPayloads = {}> {
+export interface RouteHandler<TContext = any, TResponse = any, TAccumulatedPayloads = {}> {
   (...args: unknown[]): Promise<Response>
-  getRouteInfo(): RouteInfo
-  invoke(contextOverride?: Partial<TContext>): Promise<TResponse | { error: ErrorInfo }>
+  getRouteInfo(execution?: RouteExecution): RouteInfo
+  getRouteDefinition(): RouteDefinition
+  /** Run the route without a request. `pathParams` are used as the params of the `path` parse field. */
+  invoke(contextOverride?: Partial<TContext> & Pick<RequestWithPathParams, 'pathParams'>): Promise<TResponse | { error: ErrorInfo }>
   inferRouteType: RouteTypeInfo<TContext, TResponse, TAccumulatedPayloads>
 }
 
-// Path parameter extraction helper
-type ExtractPathParams<T extends string> =
-  T extends `${infer Start}/[${infer Param}]${infer Rest}`
-  ? { [K in Param]: string } & ExtractPathParams<`${Start}${Rest}`>
-  : T extends `${infer Start}/[${infer Param}]`
-  ? { [K in Param]: string }
+// Path parameter types by the `:type` suffix, eg. `[id:int]`
+type PathParamTypes = { string: string, int: number, number: number, uuid: string }
+
+// Name and value type of a param placeholder, without the brackets
+type ParsePathParam<T extends string> =
+  T extends `...${infer Name}` ? { name: Name, value: string[] } :
+  T extends `${infer Name}:${infer Type}` ? { name: Name, value: Type extends keyof PathParamTypes ? PathParamTypes[Type] : string } :
+  { name: T, value: string }
+
+// Params of one path segment: optional `[[param]]`, or `[param]` placeholders anywhere in the segment
+type ExtractSegmentParams<T extends string> =
+  T extends `[[${infer Param}]]`
+  ? { [K in ParsePathParam<Param>['name']]?: ParsePathParam<Param>['value'] }
+  : T extends `${string}[${infer Param}]${infer Rest}`
+  ? { [K in ParsePathParam<Param>['name']]: ParsePathParam<Param>['value'] } & ExtractSegmentParams<Rest>
   : {}
 
-// Transform path parameters from [param] to ${string} for API client types
+// Path parameter extraction helper, eg. `/orgs/[orgId]/items/[id:int]` to `{ orgId: string, id: number }`
+type ExtractPathParamsBySegment<T extends string> =
+  T extends `${infer Segment}/${infer Rest}`
+  ? ExtractSegmentParams<Segment> & ExtractPathParamsBySegment<Rest>
+  : ExtractSegmentParams<T>
+
+type ExtractPathParams<T extends string> = Pretty<ExtractPathParamsBySegment<T>>
+
+// Template of a param value for API client types
+type PathParamTemplate<T extends string> =
+  T extends `...${string}` ? string :
+  T extends `${string}:${'int' | 'number'}` ? `${number}` :
+  string
+
+// Transform path parameters from [param] to ${string} for API client types. Optional
+// segments may be left out, eg. `/[[locale]]/about` matches `/about` and `/${string}/about`.
 type TransformPathParams<T extends string> =
-  T extends `${infer Start}[${infer Param}]${infer Rest}`
-  ? `${Start}${string}${TransformPathParams<Rest>}`
+  T extends `${infer Start}/[[${infer Param}]]${infer Rest}`
+  ? `${TransformPathParams<Start>}${'' | `/${PathParamTemplate<Param>}`}${TransformPathParams<Rest>}`
+  : T extends `${infer Start}[${infer Param}]${infer Rest}`
+  ? `${Start}${PathParamTemplate<Param>}${TransformPathParams<Rest>}`
   : T
 
 // Enhanced route type extraction with automatic literal type inference
-type RouteTypeInfo<TContext, TResponse, TAccumulatedPayloads = {}> = {
+export type RouteTypeInfo<TContext, TResponse, TAccumulatedPayloads = {}> = {
   path: TAccumulatedPayloads extends { path: infer P }
   ? P extends string
   ? P extends `${string}[${string}]${string}`
@@ -602,10 +1030,18 @@ type RouteTypeInfo<TContext, TResponse, TAccumulatedPayloads = {}> = {
   : string
   : string
   input: {
-    body: TAccumulatedPayloads extends { body: infer F } ? F extends Function ? ExtractFunctionResult<F> : undefined : undefined
-    query: TAccumulatedPayloads extends { query: infer F } ? F extends Function ? ExtractFunctionResult<F> : undefined : undefined
+    body: TAccumulatedPayloads extends { body: infer F } ? F extends ParseField ? ExtractFieldResult<F> : undefined : undefined
+    query: TAccumulatedPayloads extends { query: infer F } ? F extends ParseField ? ExtractFieldResult<F> : undefined : undefined
   }
-  returnValue: TResponse
+  returnValue: TAccumulatedPayloads extends { returns: infer S extends ResponseSchemas } ? SuccessResponseBody<S> : TResponse
+  /** Error codes declared with `.errors()` and the built-in ones. `string` without `.errors()`. */
+  errorCode?: TAccumulatedPayloads extends { errors: infer E } ? (keyof E & string) | BuiltInRouteErrorCode : string
+  /** Events of handlers returning `sse()` */
+  events?: InferSSEEvents<TResponse>
+  /** Response body by status. Routes without `.returns()` only describe the 200 body. */
+  responses?: TAccumulatedPayloads extends { returns: infer S extends ResponseSchemas }
+  ? { [K in keyof S]: S[K] extends StandardSchemaV1 ? StandardSchemaV1.InferOutput<S[K]> : never }
+  : { 200: TResponse }
 }
 
 // 
@@ -618,8 +1054,9 @@ type RouteTypeInfo<TContext, TResponse, TAccumulatedPayloads = {}> = {
 function mapRequestObject(...handlerArgs: any[]): MapRequestObject {
   const [firstArg, secondArg, ..._] = handlerArgs
   if (firstArg instanceof Request) {
-    if (secondArg !== null && typeof secondArg === 'object') {
-      return { request: firstArg, pathParams: secondArg, requestFormat: 'POSITIONAL_ARGS_WITH_PARAMS' }
+    // Next.js passes `{ params }`. Other second args, eg. `env` of Cloudflare Workers, aren't params.
+    if (secondArg !== null && typeof secondArg === 'object' && 'params' in secondArg) {
+      return { request: firstArg, pathParams: secondArg.params, requestFormat: 'POSITIONAL_ARGS_WITH_PARAMS' }
     }
     return { request: firstArg, requestFormat: 'POSITIONAL_ARGS' }
   }
@@ -639,6 +1076,234 @@ function mapRequestObject(...handlerArgs: any[]): MapRequestObject {
   throw new Error('Error mapping request object with the default `mapRequestObject`')
 }
 
+/**
+ * Params of the `path` parse field. Params from the framework, eg. Next.js
+ * `params`, take precedence over the ones matched from the URL, so routes behind
+ * rewrites or a base path still get them. `.invoke()` skips the URL check and
+ * takes the params from `pathParams` of the context override.
+ */
+function resolvePathParams(
+  compiled: CompiledPathPattern,
+  opts: { requestPath: string, frameworkParams?: Record<string, string | string[]>, isInvoke: boolean },
+) {
+  const { requestPath, frameworkParams = {}, isInvoke } = opts
+  const urlParams = matchPath(compiled, requestPath)
+  // Only the params of the pattern, the framework may pass others, eg. of a parent route
+  const providedParams = compiled.params.filter(param => frameworkParams[param.name] !== undefined)
+  const missingParams = compiled.params.filter(param => !param.optional && frameworkParams[param.name] === undefined)
+  const hasFrameworkParams = providedParams.length > 0 && missingParams.length === 0
+
+  if (!urlParams && !isInvoke && !hasFrameworkParams) {
+    const hasParams = compiled.paramNames.length > 0
+    let errorMessage = hasParams
+      ? `Path '${requestPath}' does not match expected path '${compiled.pattern}'`
+      : `Path '${requestPath}' does not match exact path '${compiled.pattern}'`
+    if (providedParams.length > 0) {
+      errorMessage += `. Missing framework params: ${missingParams.map(param => param.name).join(', ')}`
+    }
+    throw new RouteError(`Error parsing 'path': ${errorMessage}`, {
+      errorCode: 'PARSE_ERROR',
+      errorMessage,
+      httpStatus: 404,
+      cause: new Error(`Path mismatch: ${errorMessage}`)
+    })
+  }
+
+  try {
+    const params = urlParams ? decodePathParams(urlParams) : {}
+    for (const param of providedParams) params[param.name] = frameworkParams[param.name]
+    return coercePathParams(compiled, params, { partial: isInvoke })
+  } catch (error) {
+    throw new RouteError("Error parsing `path`", {
+      errorCode: 'PARSE_ERROR',
+      errorMessage: (error as Error).message,
+      httpStatus: 400,
+      cause: error as Error,
+    })
+  }
+}
+
+/**
+ * Take the request ID from the incoming request (`x-request-id` or the trace ID
+ * of a W3C `traceparent` header), or generate a new one.
+ */
+function resolveRequestId(request: Request | undefined, opts: RouteOptions) {
+  const incomingId = request?.headers.get(opts.requestIdHeader || 'x-request-id')
+  if (incomingId) return incomingId
+
+  // Format: `{version}-{trace-id}-{parent-id}-{trace-flags}`
+  const traceId = request?.headers.get('traceparent')?.split('-')[1]
+  if (traceId && /^[0-9a-f]{32}$/.test(traceId)) return traceId
+
+  return opts.generateRequestId ? opts.generateRequestId() : crypto.randomUUID()
+}
+
+function createFail(errorCodes: ErrorCodeStatuses): Fail<ErrorCodeStatuses> {
+  return (code, details, message) => {
+    throw new RouteError("Request failed", {
+      errorCode: code,
+      errorMessage: message ?? code,
+      httpStatus: errorCodes[code] ?? 500,
+      details,
+    })
+  }
+}
+
+/**
+ * Run `fn` in a child span of `parent`. Failed calls record the exception and set the error status.
+ */
+async function runInSpan<T>(tracer: RouteTracer, parent: RouteSpan, name: string, fn: () => Promise<T>) {
+  const span = tracer.startSpan(name, { parent })
+  try {
+    const result = await fn()
+    span.setStatus({ code: SpanStatusCode.OK })
+    return result
+  } catch (error) {
+    span.recordException(error as Error)
+    span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error)?.message })
+    throw error
+  } finally {
+    span.end()
+  }
+}
+
+function recordStep(execution: RouteExecution, index: number, status: StepStatus, startedAt: number) {
+  execution.steps[index] = { status, durationMs: performance.now() - startedAt }
+}
+
+/**
+ * Wrap errors that aren't a `RouteError` yet, keeping the original as `cause`
+ */
+function toRouteError(error: unknown, message: string, opts: { errorCode: string, httpStatus: number }) {
+  if (isRouteError(error)) return error
+  return new RouteError(message, {
+    errorCode: opts.errorCode,
+    errorMessage: (error as Error)?.message ?? String(error),
+    httpStatus: opts.httpStatus,
+    cause: error as Error,
+  })
+}
+
+/**
+ * Get the value a Standard Schema validates for a parse field
+ */
+function schemaInput(field: PredefinedParseFields, ctx: Record<string, unknown>) {
+  if (field === 'headers') return Object.fromEntries((ctx.headers as Headers).entries())
+  return ctx[field]
+}
+
+/**
+ * Validate a parse field with a Standard Schema. Throws a 422 `RouteError` with
+ * the issues as `details` when validation fails.
+ */
+async function validateSchema(field: string, schema: StandardSchemaV1, input: unknown) {
+  const result = await schema['~standard'].validate(input)
+  if (!result.issues) return result.value
+
+  const details = normalizeIssues(result.issues)
+  throw new RouteError(`Error parsing \`${field}\``, {
+    errorCode: 'VALIDATION_ERROR',
+    errorMessage: details.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; '),
+    httpStatus: 422,
+    details,
+  })
+}
+
+// Placeholder for the handler response in `.invoke` when there's no middleware to receive it
+const INVOKE_RESPONSE = new Response(null)
+
+/**
+ * Turn a handler result into a Response, encoded with the serializer negotiated
+ * from the `Accept` header. Without serializers, the result is sent as JSON.
+ */
+function toResponse(value: unknown, opts: { responses?: ResponseSchemas, serializers?: Serializer[], request: Request }) {
+  if (value instanceof Response) return value
+  const { status, body, headers } = opts.responses && isStatusResponse(value, opts.responses)
+    ? value
+    : { status: 200, body: value, headers: undefined }
+
+  if (!opts.serializers) {
+    return new Response(jsonSerializer.serialize(body), {
+      status,
+      headers: { ...headers, 'Content-Type': 'application/json' }
+    })
+  }
+
+  const serializer = negotiateSerializer(opts.request.headers.get('accept'), opts.serializers, body)
+  if (!serializer) {
+    const supported = opts.serializers.filter(serializer => serializer.canSerialize?.(body) ?? true)
+    if (supported.length === 0) {
+      throw new RouteError("Internal Server Error", {
+        errorCode: 'SERIALIZATION_ERROR',
+        errorMessage: 'None of the serializers can encode the handler result',
+        httpStatus: 500,
+      })
+    }
+    throw notAcceptable(supported)
+  }
+  return new Response(serializer.serialize(body), {
+    status,
+    headers: { ...headers, 'Content-Type': serializer.contentType, Vary: 'Accept' }
+  })
+}
+
+function notAcceptable(serializers: Serializer[]) {
+  return new RouteError("Not Acceptable", {
+    errorCode: 'NOT_ACCEPTABLE',
+    errorMessage: `Expected Accept header with one of: ${serializers.map(serializer => serializer.contentType).join(', ')}`,
+    httpStatus: 406,
+  })
+}
+
+/**
+ * Check for a `{ status, body }` result. Only statuses declared in `.returns()`
+ * count, so handlers can still return plain objects with a `status` field.
+ */
+function isStatusResponse(value: unknown, responses: ResponseSchemas): value is { status: number, body: unknown, headers?: Record<string, string> } {
+  if (!value || typeof value !== 'object' || !('status' in value) || !('body' in value)) return false
+  const { status, body: _, headers: __, ...rest } = value as Record<string, unknown>
+  return typeof status === 'number' && status in responses && Object.keys(rest).length === 0
+}
+
+/**
+ * Validate a handler result against the `.returns()` schema of its status.
+ * Throws a 500 `RouteError` with the issues as `details`.
+ */
+async function validateResponse(result: unknown, responses: ResponseSchemas) {
+  if (result instanceof Response) return
+  const { status, body } = isStatusResponse(result, responses) ? result : { status: 200, body: result }
+  const schema = responses[status]
+  if (!schema) {
+    throw new RouteError("Invalid response", {
+      errorCode: 'RESPONSE_VALIDATION_ERROR',
+      errorMessage: `Status ${status} is not declared in \`returns()\``,
+      httpStatus: 500,
+    })
+  }
+  const validation = await schema['~standard'].validate(body)
+  if (validation.issues) {
+    throw new RouteError("Invalid response", {
+      errorCode: 'RESPONSE_VALIDATION_ERROR',
+      errorMessage: `Response body for status ${status} doesn't match the schema`,
+      httpStatus: 500,
+      details: normalizeIssues(validation.issues),
+    })
+  }
+}
+
+function isProduction() {
+  return typeof process !== 'undefined' && process.env?.NODE_ENV === 'production'
+}
+
+async function parseResponseBody(response: Response) {
+  const text = await response.text()
+  try {
+    return JSON.parse(text)
+  } catch (_) {
+    return text
+  }
+}
+
 function parseQuery(ctx: { request: Request, query?: Record<string, string> }) {
   if (!ctx.query) {
     const url = new URL(ctx.request.url)
@@ -647,10 +1312,38 @@ function parseQuery(ctx: { request: Request, query?: Record<string, string> }) {
   return ctx
 }
 
-async function parseBody(ctx: { request: Request, body?: Record<string, unknown> }) {
-  // Parse and cache body data. TODO: handle multipart/form-data, etc.
-  if (!ctx.body) {
-    const bodyText = await ctx.request.text()
+/**
+ * Parse and cache the request body based on its `Content-Type`:
+ * - JSON, text, or no content type: parsed as JSON, falls back to `{ text }`
+ * - `application/x-www-form-urlencoded`: object of fields, repeated keys become arrays
+ * - `multipart/form-data`: object of fields and `File` objects, repeated keys become arrays
+ *
+ * Other content types are rejected with 415, bodies larger than `maxBodySize` with 413.
+ */
+async function parseBody(ctx: { request: Request, body?: Record<string, unknown>, rawBody?: ArrayBuffer }, opts: { maxBodySize: number }) {
+  if (ctx.body) return ctx
+
+  const contentType = ctx.request.headers.get('content-type')?.split(';')[0].trim().toLowerCase() || ''
+  const isForm = contentType === 'application/x-www-form-urlencoded'
+  const isMultipart = contentType === 'multipart/form-data'
+  const isText = !contentType || contentType.startsWith('text/') || contentType === 'application/json' || contentType.endsWith('+json')
+  if (!isForm && !isMultipart && !isText) {
+    throw new RouteError("Error parsing `body`", {
+      errorCode: 'UNSUPPORTED_MEDIA_TYPE',
+      errorMessage: `Content type '${contentType}' is not supported`,
+      httpStatus: 415,
+    })
+  }
+
+  const buffer = await readRawBody(ctx, opts)
+  if (isMultipart) {
+    // Re-parse from the buffer we already read, keeping the boundary from the original header
+    const formData = await new Response(buffer, { headers: ctx.request.headers }).formData()
+    ctx.body = collectEntries(formData.entries())
+  } else if (isForm) {
+    ctx.body = collectEntries(new URLSearchParams(new TextDecoder().decode(buffer)).entries())
+  } else {
+    const bodyText = new TextDecoder().decode(buffer)
     if (bodyText.trim() === '') {
       ctx.body = {}
     } else {
@@ -664,6 +1357,70 @@ async function parseBody(ctx: { request: Request, body?: Record<string, unknown>
   return ctx
 }
 
+// Raw bodies by request. The context is copied for every `next()` call of a
+// middleware, so a retry wouldn't see the body cached on the previous copy.
+const rawBodies = new WeakMap<Request, ArrayBuffer>()
+
+/**
+ * Read and cache the raw request body, so `body` and `webhook` can both be parsed,
+ * also when a middleware calls `next()` again. Bodies larger than `maxBodySize`
+ * are rejected with 413.
+ */
+async function readRawBody(ctx: { request: Request, rawBody?: ArrayBuffer }, opts: { maxBodySize: number }) {
+  const cached = ctx.rawBody ?? rawBodies.get(ctx.request)
+  if (cached) return ctx.rawBody = cached
+
+  const payloadTooLarge = () => new RouteError("Error parsing `body`", {
+    errorCode: 'PAYLOAD_TOO_LARGE',
+    errorMessage: `Request body exceeds the maximum size of ${opts.maxBodySize} bytes`,
+    httpStatus: 413,
+  })
+  const contentLength = Number(ctx.request.headers.get('content-length'))
+  if (contentLength > opts.maxBodySize) throw payloadTooLarge()
+  if (!ctx.request.body) {
+    ctx.rawBody = new ArrayBuffer(0)
+    rawBodies.set(ctx.request, ctx.rawBody)
+    return ctx.rawBody
+  }
+
+  // Count the bytes while reading, the `Content-Length` is missing for chunked bodies
+  const reader = ctx.request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    size += result.value.byteLength
+    if (size > opts.maxBodySize) {
+      await reader.cancel()
+      throw payloadTooLarge()
+    }
+    chunks.push(result.value)
+  }
+  const bytes = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  ctx.rawBody = bytes.buffer
+  rawBodies.set(ctx.request, bytes.buffer)
+  return bytes.buffer
+}
+
+/** Collect form entries into an object. Repeated keys become arrays. */
+function collectEntries(entries: Iterable<[string, unknown]>) {
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of entries) {
+    if (!(key in result)) {
+      result[key] = value
+    } else if (Array.isArray(result[key])) {
+      (result[key] as unknown[]).push(value)
+    } else {
+      result[key] = [result[key], value]
+    }
+  }
+  return result
+}
+
 function parseCookies(ctx: { request: Request }) {
   const cookieHeader = ctx.request.headers.get('cookie')
   if (!cookieHeader) return { ...ctx, cookies: {} }
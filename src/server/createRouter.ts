@@ -0,0 +1,128 @@
+import { isPreflightRequest } from "./cors";
+import type { RouteHandler, RouteMethod } from "./createRoute";
+import { compilePathPattern, comparePathPatterns, decodePathParams, matchPath, type CompiledPathPattern } from "./pathPattern";
+import { json, notFound } from "./response";
+
+type RouterOptions = {
+  /** Response for requests that don't match any route. Defaults to `notFound()` */
+  onNotFound?: (request: Request) => Promise<Response> | Response
+}
+
+type RouteEntry = {
+  compiled: CompiledPathPattern
+  /** Handlers keyed by method. `*` is used for routes without a `method` parse field. */
+  handlers: Map<RouteMethod | '*', RouteHandler<any, any, any>>
+}
+
+/**
+ * Dispatch requests to route handlers based on the `path` and `method` declared
+ * in their `parse()` payload. Example:
+ *
+ * ```ts
+ * const getUser = createRoute()
+ *   .parse({ method: 'GET', path: '/api/users/[id]' })
+ *   .handle((ctx) => ({ id: ctx.parsed.path.params.id }))
+ *
+ * const router = createRouter([getUser, createUser, listUsers])
+ *
+ * Bun.serve({ fetch: router.fetch })
+ * ```
+ *
+ * Static segments are matched first, then typed params such as `[id:int]`,
+ * `[param]`, optional, and catch-all segments. When the path matches
+ * but the method doesn't, the router responds with 405 and an `Allow` header.
+ * `HEAD` requests go to the `GET` route when the path has no `HEAD` route.
+ * CORS preflight requests go to the route of the requested method when it has
+ * the `cors` option.
+ */
+export function createRouter(handlers: RouteHandler<any, any, any>[], opts: RouterOptions = {}) {
+  const entries: RouteEntry[] = []
+
+  for (const handler of handlers) {
+    const { name, path, methods } = handler.getRouteDefinition()
+    if (!path) {
+      throw new Error(`Route '${name ?? '(unnamed)'}' has no \`path\` in its parse payload and can't be added to the router`)
+    }
+
+    let entry = entries.find(entry => entry.compiled.pattern === path)
+    if (!entry) {
+      entry = { compiled: compilePathPattern(path), handlers: new Map() }
+      entries.push(entry)
+    }
+
+    for (const method of methods ?? ['*' as const]) {
+      if (entry.handlers.has(method)) {
+        throw new Error(`Duplicate route: ${method === '*' ? 'ANY' : method} ${path}`)
+      }
+      entry.handlers.set(method, handler)
+    }
+  }
+
+  entries.sort((a, b) => comparePathPatterns(a.compiled, b.compiled))
+
+  const fetch = async (request: Request): Promise<Response> => {
+    const { pathname } = new URL(request.url)
+    const method = request.method as RouteMethod
+    const allowedMethods = new Set<string>()
+
+    for (const entry of entries) {
+      const params = matchPath(entry.compiled, pathname)
+      if (!params) continue
+
+      const handler = entry.handlers.get(method) ?? entry.handlers.get('*') ?? preflightHandler(entry, request)
+      if (handler) return handler({ request, params: decodeParams(params) })
+
+      // `HEAD` is answered by the `GET` route, without the body
+      const getHandler = method === 'HEAD' ? entry.handlers.get('GET') : undefined
+      if (getHandler) {
+        const response: Response = await getHandler({ request, params: decodeParams(params) })
+        return new Response(null, { status: response.status, statusText: response.statusText, headers: response.headers })
+      }
+
+      for (const allowed of entry.handlers.keys()) {
+        allowedMethods.add(allowed)
+        if (allowed === 'GET') allowedMethods.add('HEAD')
+      }
+    }
+
+    if (allowedMethods.size > 0) {
+      const allow = [...allowedMethods].join(', ')
+      return json(
+        { error: { code: 'METHOD_NOT_ALLOWED', message: `Method ${method} not allowed. Expected: ${allow}` } },
+        { status: 405, headers: { Allow: allow } },
+      )
+    }
+
+    return opts.onNotFound ? opts.onNotFound(request) : notFound(`Route not found: ${method} ${pathname}`)
+  }
+
+  return {
+    fetch,
+    /** Registered routes, in matching order */
+    routes: entries.map(entry => ({
+      path: entry.compiled.pattern,
+      methods: [...entry.handlers.keys()],
+    })),
+  }
+}
+
+/**
+ * Route that answers a CORS preflight request, when the path has no `OPTIONS`
+ * route: the route for the requested method, if it has the `cors` option.
+ */
+function preflightHandler(entry: RouteEntry, request: Request) {
+  if (!isPreflightRequest(request)) return undefined
+  const requestedMethod = request.headers.get('access-control-request-method')?.toUpperCase() as RouteMethod
+  const handler = entry.handlers.get(requestedMethod)
+  return handler?.getRouteDefinition().cors ? handler : undefined
+}
+
+// Decoded like the params of other frameworks. Invalid encoding is left to the
+// `path` parse field, which reports it from the URL.
+function decodeParams(params: Record<string, string | string[]>) {
+  try {
+    return decodePathParams(params)
+  } catch {
+    return undefined
+  }
+}
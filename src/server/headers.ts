@@ -0,0 +1,39 @@
+/**
+ * Set headers on a response, merging `Vary` with the existing value. Responses
+ * with immutable headers (eg. from `fetch` or `Response.redirect`) are copied first.
+ */
+export function setResponseHeaders(response: Response, headers: Record<string, string>) {
+  const apply = (target: Headers) => {
+    for (const [key, value] of Object.entries(headers)) {
+      const existing = key.toLowerCase() === 'vary' ? target.get('vary') : null
+      const merged = existing && !existing.split(',').some(v => v.trim().toLowerCase() === value.toLowerCase())
+        ? `${existing}, ${value}`
+        : existing ?? value
+      target.set(key, merged)
+    }
+  }
+  try {
+    apply(response.headers)
+    return response
+  } catch {
+    const copy = new Response(response.body, response)
+    apply(copy.headers)
+    return copy
+  }
+}
+
+// Suffix of the ETag of a compressed body, eg. `"abc-gzip"` for `"abc"`
+const ENCODED_ETAG_SUFFIX = /-(br|gzip|deflate)"$/
+
+/**
+ * Strong ETag of a body compressed with `encoding`. The compressed bytes differ
+ * from the original ones, so they can't share the ETag.
+ */
+export function encodedETag(etag: string, encoding: string) {
+  return etag.replace(/"$/, `-${encoding}"`)
+}
+
+/** ETag of the uncompressed body, for comparing an `encodedETag` with the resource ETag */
+export function decodedETag(etag: string) {
+  return etag.replace(ENCODED_ETAG_SUFFIX, '"')
+}
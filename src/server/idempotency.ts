@@ -0,0 +1,177 @@
+import { RouteError, type Middleware, type RequestContext } from "./createRoute";
+
+/** Response stored by `idempotency` and replayed on retries */
+export type StoredResponse = {
+  status: number
+  headers: [string, string][]
+  /** Body bytes, base64-encoded so external stores can save the record as JSON */
+  body: string
+}
+
+export type IdempotencyRecord =
+  | { state: 'in_flight' }
+  | { state: 'completed', response: StoredResponse }
+
+/**
+ * Storage for `idempotency`. `begin` must be atomic, so a Redis-like backend can
+ * implement it with `SET key value NX PX ttl` and return the existing value.
+ */
+export interface IdempotencyStore {
+  /**
+   * Mark `key` as in flight when it's missing and return `undefined`. Returns
+   * the existing record otherwise. The record expires after `ttl` ms.
+   */
+  begin(key: string, ttl: number): Promise<IdempotencyRecord | undefined> | IdempotencyRecord | undefined
+  /** Store the response of the first request, replacing the in-flight record */
+  complete(key: string, response: StoredResponse, ttl: number): Promise<void> | void
+  /** Remove the record, eg. when the request failed, so the key can be retried */
+  release(key: string): Promise<void> | void
+}
+
+type IdempotencyOptions<TContext> = {
+  /** Defaults to an in-memory store, which is only suitable for a single server instance */
+  store?: IdempotencyStore
+  /** How long responses are replayed, in milliseconds. Defaults to 24 hours. */
+  ttl?: number
+  /**
+   * Scope keys per user, so clients can't replay each other's responses.
+   * Defaults to `ctx.parsed.auth.id` or `ctx.parsed.auth.userId` when present.
+   */
+  scope?: (ctx: RequestContext & TContext) => Promise<string | null | undefined> | string | null | undefined
+  /** Fail with 400 when the request has no `Idempotency-Key` header. Defaults to `false`. */
+  required?: boolean
+  /** Prefix for the store keys, to share a store between routes */
+  prefix?: string
+}
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000
+
+// Bodies that are sent as they are produced, storing them would wait for the end of the stream
+const STREAMING_CONTENT_TYPE = /^(text\/event-stream|application\/x-ndjson)\b/
+
+/**
+ * Replay the response of the first request for retries with the same
+ * `Idempotency-Key` header. Use it as a middleware after auth is parsed:
+ *
+ * ```ts
+ * createRoute()
+ *   .parse({ method: 'POST', auth: (ctx) => getUser(ctx.authHeader) })
+ *   .use(idempotency({ ttl: 60 * 60 * 1000 }))
+ *   .handle((ctx) => chargeCustomer(ctx.parsed.auth.id))
+ * ```
+ *
+ * Keys are scoped by user, method, and path. Replayed responses get an
+ * `Idempotent-Replayed: true` header. Retries that arrive while the first request
+ * is in flight fail with a 409 `RouteError`. Failed requests (thrown errors and
+ * 5xx responses) aren't stored, so they can be retried with the same key.
+ * Streamed responses, eg. `sse()`, aren't stored either.
+ */
+export function idempotency<TContext = {}>(opts: IdempotencyOptions<TContext> = {}): Middleware<TContext> {
+  const store = opts.store ?? createMemoryIdempotencyStore()
+  const ttl = opts.ttl ?? DEFAULT_TTL
+  const prefix = opts.prefix ?? 'idempotency'
+  const getScope = opts.scope ?? getAuthScope
+
+  return async (ctx, next) => {
+    const idempotencyKey = ctx.request.headers.get('idempotency-key')
+    if (!idempotencyKey) {
+      if (!opts.required) return next()
+      throw new RouteError("Bad request", {
+        errorCode: 'IDEMPOTENCY_KEY_REQUIRED',
+        errorMessage: 'Missing Idempotency-Key header',
+        httpStatus: 400,
+      })
+    }
+
+    const scope = (await getScope(ctx)) ?? ''
+    const { pathname } = new URL(ctx.request.url)
+    const key = `${prefix}:${scope}:${ctx.request.method} ${pathname}:${idempotencyKey}`
+
+    const record = await store.begin(key, ttl)
+    if (record?.state === 'completed') return replayResponse(record.response)
+    if (record?.state === 'in_flight') {
+      throw new RouteError("Conflict", {
+        errorCode: 'IDEMPOTENCY_CONFLICT',
+        errorMessage: 'A request with the same Idempotency-Key is still in progress',
+        httpStatus: 409,
+        headers: { 'Retry-After': '1' },
+      })
+    }
+
+    let response: Response | void
+    try {
+      response = await next()
+    } catch (error) {
+      await store.release(key)
+      throw error
+    }
+    const isStreaming = STREAMING_CONTENT_TYPE.test(response?.headers.get('content-type') ?? '')
+    if (!response || response.status >= 500 || isStreaming) {
+      await store.release(key)
+      return response
+    }
+
+    await store.complete(key, {
+      status: response.status,
+      headers: [...response.headers],
+      body: toBase64(new Uint8Array(await response.clone().arrayBuffer())),
+    }, ttl)
+    return response
+  }
+}
+
+/**
+ * In-memory `IdempotencyStore`. Expired records are removed lazily.
+ */
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const records = new Map<string, { record: IdempotencyRecord, expiresAt: number }>()
+  let nextSweepAt = 0
+
+  const sweep = (now: number) => {
+    if (now < nextSweepAt) return
+    for (const [key, entry] of records) {
+      if (entry.expiresAt <= now) records.delete(key)
+    }
+    nextSweepAt = now + 60_000
+  }
+
+  return {
+    begin(key, ttl) {
+      const now = Date.now()
+      sweep(now)
+      const entry = records.get(key)
+      if (entry && entry.expiresAt > now) return entry.record
+      records.set(key, { record: { state: 'in_flight' }, expiresAt: now + ttl })
+      return undefined
+    },
+    complete(key, response, ttl) {
+      records.set(key, { record: { state: 'completed', response }, expiresAt: Date.now() + ttl })
+    },
+    release(key) {
+      records.delete(key)
+    },
+  }
+}
+
+function getAuthScope(ctx: RequestContext) {
+  const auth = (ctx as { parsed?: { auth?: { id?: unknown, userId?: unknown } } }).parsed?.auth
+  const id = auth?.id ?? auth?.userId
+  return id === undefined || id === null ? undefined : String(id)
+}
+
+function replayResponse(stored: StoredResponse) {
+  const headers = new Headers(stored.headers)
+  headers.set('Idempotent-Replayed', 'true')
+  return new Response(fromBase64(stored.body), { status: stored.status, headers })
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = ''
+  // In chunks, spreading a large body would exceed the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  return btoa(binary)
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0))
+}
@@ -1,3 +1,16 @@
 export * from "./createRoute";
+export * from "./createRouter";
 export * from "./cors";
+export * from "./openapi";
 export * from "./response";
+export * from "./standardSchema";
+export * from "./rateLimit";
+export * from "./tracing";
+export * from "./serializers";
+export * from "./cache";
+export * from "./compression";
+export * from "./idempotency";
+export * from "./webhook";
+export * from "./auth";
+export * from "./authorize";
+export * from "./tenant";
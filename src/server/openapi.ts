@@ -0,0 +1,250 @@
+import type { RouteDefinition, RouteHandler } from "./createRoute";
+import type { AuthSecurityScheme } from "./auth";
+import { toJsonSchema } from "./standardSchema";
+import { compilePathPattern, type PathParam } from "./pathPattern";
+
+type JsonSchema = Record<string, unknown>
+
+export type OpenAPIInfo = {
+  title: string
+  version: string
+  description?: string
+}
+
+type OpenAPIOptions = {
+  servers?: { url: string, description?: string }[]
+}
+
+type OpenAPIParameter = {
+  name: string
+  in: 'path' | 'query' | 'header' | 'cookie'
+  required: boolean
+  schema: JsonSchema
+}
+
+type OpenAPIOperation = {
+  operationId?: string
+  parameters?: OpenAPIParameter[]
+  requestBody?: { required: boolean, content: Record<string, { schema: JsonSchema }> }
+  responses: Record<string, { description: string, content?: Record<string, { schema: JsonSchema }> }>
+  security?: Record<string, string[]>[]
+}
+
+export type OpenAPIDocument = {
+  openapi: '3.1.0'
+  info: OpenAPIInfo
+  servers?: OpenAPIOptions['servers']
+  paths: Record<string, Record<string, OpenAPIOperation>>
+  components: {
+    schemas: Record<string, JsonSchema>
+    securitySchemes: Record<string, JsonSchema>
+  }
+}
+
+// Status codes of the `RouteError` thrown when a parse field fails
+const PARSE_FIELD_ERRORS: Partial<Record<RouteDefinition['fields'][number], [number, string][]>> = {
+  auth: [[401, 'Not authenticated']],
+  body: [[400, 'Invalid request body'], [413, 'Request body too large'], [415, 'Unsupported content type']],
+  query: [[400, 'Invalid query parameters']],
+  headers: [[400, 'Invalid headers']],
+  cookies: [[400, 'Invalid cookies']],
+  resource: [[400, 'Invalid resource']],
+  path: [[404, 'Path not found']],
+  method: [[405, 'Method not allowed']],
+  webhook: [[401, 'Invalid webhook signature'], [413, 'Request body too large']],
+  tenant: [[400, 'Tenant required'], [404, 'Tenant not found']],
+}
+
+const ERROR_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    error: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        code: { type: 'string' },
+        requestId: { type: 'string' },
+        details: {
+          description: 'Validation issues, or other details of the error',
+          oneOf: [
+            {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { path: { type: 'string' }, message: { type: 'string' }, code: { type: 'string' } },
+                required: ['path', 'message'],
+              },
+            },
+            { type: 'object' },
+          ],
+        },
+      },
+      required: ['message', 'code'],
+    },
+  },
+  required: ['error'],
+}
+
+/**
+ * Generate an OpenAPI 3.1 document from route handlers. Example:
+ *
+ * ```ts
+ * const getUser = createRoute({ name: 'getUser' }).parse({
+ *   method: 'GET',
+ *   path: '/api/users/[id]',
+ *   query: (ctx) => UserQuery.parse(ctx.query),
+ *   schema: { query: UserQuery },
+ * }).handle(...)
+ *
+ * const doc = generateOpenAPI([getUser], { title: 'My API', version: '1.0.0' })
+ * ```
+ *
+ * Request bodies and parameters are documented from the `schema` slot of the
+ * parse payloads. Routes without `path` are skipped. Routes without `method`
+ * are documented as `POST` when they parse a body, `GET` otherwise.
+ */
+export function generateOpenAPI(
+  routes: RouteHandler<any, any, any>[],
+  info: OpenAPIInfo,
+  opts: OpenAPIOptions = {},
+): OpenAPIDocument {
+  const document: OpenAPIDocument = {
+    openapi: '3.1.0',
+    info,
+    ...(opts.servers && { servers: opts.servers }),
+    paths: {},
+    components: {
+      schemas: { ErrorResponse: ERROR_RESPONSE_SCHEMA },
+      securitySchemes: {},
+    },
+  }
+
+  for (const route of routes) {
+    const definition = route.getRouteDefinition()
+    if (!definition.path) continue
+
+    const methods = definition.methods ?? [definition.fields.includes('body') ? 'POST' : 'GET']
+    const openAPIPath = toOpenAPIPath(definition.path)
+    document.paths[openAPIPath] ??= {}
+
+    for (const method of methods) {
+      const operation = buildOperation(definition)
+      if (definition.name) {
+        operation.operationId = methods.length > 1 ? `${definition.name}_${method.toLowerCase()}` : definition.name
+      }
+      if (definition.fields.includes('auth')) {
+        // Custom auth functions are documented as bearer auth
+        const schemes = definition.securitySchemes ?? [{ type: 'http', scheme: 'bearer' }]
+        operation.security = schemes.map(scheme => ({ [addSecurityScheme(document, scheme)]: [] }))
+      }
+      document.paths[openAPIPath][method.toLowerCase()] = operation
+    }
+  }
+
+  return document
+}
+
+function buildOperation(definition: RouteDefinition): OpenAPIOperation {
+  const { schema, fields } = definition
+  const operation: OpenAPIOperation = { responses: {} }
+
+  const parameters: OpenAPIParameter[] = []
+  const pathSchema = schema.path && toJsonSchema(schema.path)
+  for (const param of compilePathPattern(definition.path!).params) {
+    parameters.push({ name: param.name, in: 'path', required: true, schema: propertySchema(pathSchema, param.name, pathParamSchema(param)) })
+  }
+  parameters.push(
+    ...objectParameters(schema.query && toJsonSchema(schema.query), 'query'),
+    ...objectParameters(schema.headers && toJsonSchema(schema.headers), 'header'),
+    ...objectParameters(schema.cookies && toJsonSchema(schema.cookies), 'cookie'),
+  )
+  if (parameters.length > 0) operation.parameters = parameters
+
+  // Webhooks are verified against the raw body, which isn't necessarily parsed with `body`
+  if (fields.includes('body') || fields.includes('webhook')) {
+    const bodySchema = (schema.body && toJsonSchema(schema.body)) || {}
+    operation.requestBody = { required: true, content: { 'application/json': { schema: bodySchema } } }
+  }
+
+  const declaredStatuses = Object.keys(definition.responses ?? {})
+  if (!declaredStatuses.some(status => status.startsWith('2'))) {
+    operation.responses['200'] = { description: 'Successful response' }
+  }
+  // Schemas from `.returns()` take precedence over the default error responses
+  for (const status of declaredStatuses) {
+    const responseSchema = toJsonSchema(definition.responses![Number(status)], 'output') || {}
+    operation.responses[status] = {
+      description: Number(status) < 400 ? 'Successful response' : 'Error response',
+      content: { 'application/json': { schema: responseSchema } },
+    }
+  }
+  const errorContent = { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } }
+  for (const field of fields) {
+    for (const [status, description] of PARSE_FIELD_ERRORS[field] ?? []) {
+      operation.responses[status] ??= { description, content: errorContent }
+    }
+  }
+  if (definition.validatedFields.length > 0) {
+    operation.responses['422'] ??= { description: 'Validation failed', content: errorContent }
+  }
+  if (definition.permissions) {
+    operation.responses['403'] ??= { description: `Forbidden, requires ${definition.permissions.join(', ')}`, content: errorContent }
+  }
+  for (const [code, status] of Object.entries(definition.errors ?? {})) {
+    const existing = operation.responses[status]
+    if (!existing) {
+      operation.responses[status] = { description: code, content: errorContent }
+    } else if (existing.content === errorContent) {
+      existing.description = `${existing.description}, ${code}`
+    }
+  }
+  operation.responses['500'] ??= { description: 'Internal server error', content: errorContent }
+
+  return operation
+}
+
+/**
+ * Add the scheme to the document components and return its name: `bearerAuth`,
+ * `apiKeyAuth`, or `cookieAuth`, with a suffix when another scheme has the name.
+ */
+function addSecurityScheme(document: OpenAPIDocument, scheme: AuthSecurityScheme) {
+  const { securitySchemes } = document.components
+  const baseName = scheme.type === 'http' ? 'bearerAuth' : scheme.in === 'cookie' ? 'cookieAuth' : 'apiKeyAuth'
+  for (let i = 1; ; i++) {
+    const name = i === 1 ? baseName : `${baseName}${i}`
+    if (!securitySchemes[name]) securitySchemes[name] = scheme
+    if (JSON.stringify(securitySchemes[name]) === JSON.stringify(scheme)) return name
+  }
+}
+
+/** Turn the properties of an object schema into parameters */
+function objectParameters(jsonSchema: JsonSchema | undefined, location: OpenAPIParameter['in']): OpenAPIParameter[] {
+  const properties = jsonSchema?.properties as Record<string, JsonSchema> | undefined
+  if (!properties) return []
+  const required = (jsonSchema?.required as string[] | undefined) ?? []
+  return Object.entries(properties).map(([name, schema]) => ({
+    name,
+    in: location,
+    required: required.includes(name),
+    schema,
+  }))
+}
+
+// `/api/users/[id:int]` to `/api/users/{id}`. OpenAPI has no optional or
+// catch-all path params, they are described as plain params.
+function toOpenAPIPath(path: string) {
+  return path.replace(/\[\[?(?:\.\.\.)?([^\]:]+)(?::[^\]]+)?\]\]?/g, '{$1}')
+}
+
+function pathParamSchema(param: PathParam): JsonSchema {
+  if (param.catchAll) return { type: 'string', description: 'One or more path segments' }
+  if (param.type === 'int') return { type: 'integer' }
+  if (param.type === 'number') return { type: 'number' }
+  if (param.type === 'uuid') return { type: 'string', format: 'uuid' }
+  return { type: 'string' }
+}
+
+function propertySchema(jsonSchema: JsonSchema | undefined, name: string, fallback: JsonSchema = { type: 'string' }): JsonSchema {
+  const properties = jsonSchema?.properties as Record<string, JsonSchema> | undefined
+  return properties?.[name] ?? fallback
+}
@@ -0,0 +1,201 @@
+// Matches a param placeholder in a route path: `[id]`, `[id:int]`, `[[locale]]`, `[...rest]`, or `[[...rest]]`
+const PARAM_PATTERN = /\[\[?(?:\.\.\.)?[^\]]+\]\]?/g
+
+/** Regex of each param type. Values that don't match make the path not match. */
+const PARAM_TYPE_PATTERNS = {
+  string: '[^/]+',
+  int: '-?\\d+',
+  number: '-?\\d+(?:\\.\\d+)?',
+  uuid: '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}',
+}
+
+export type PathParamType = keyof typeof PARAM_TYPE_PATTERNS
+
+export type PathParam = {
+  name: string
+  type: PathParamType
+  /** `[[name]]` and `[[...name]]`, the segment may be missing */
+  optional: boolean
+  /** `[...name]` and `[[...name]]`, matches the rest of the path as an array of segments */
+  catchAll: boolean
+}
+
+/** Value of a path param after coercion */
+export type PathParamValue = string | number | string[] | undefined
+
+/** Kind of a path segment, from the most to the least specific */
+type PathSegmentKind = 'static' | 'typed' | 'param' | 'optional' | 'catchAll'
+
+const SEGMENT_RANKS: Record<PathSegmentKind, number> = { static: 0, typed: 1, param: 2, optional: 3, catchAll: 4 }
+
+export type CompiledPathPattern = {
+  pattern: string
+  regex: RegExp
+  paramNames: string[]
+  params: PathParam[]
+  /** Per-segment kind, used to sort routes from the most to the least specific */
+  segments: PathSegmentKind[]
+}
+
+/**
+ * Compile a route path into a regex that captures its params. Static parts are
+ * matched literally. Supported params:
+ * - `[id]`: one segment, or part of it, eg. `/files/[name].json`
+ * - `[id:int]`, `[price:number]`, `[id:uuid]`: only matches values of the type
+ * - `[[locale]]`: optional segment
+ * - `[...rest]`: one or more segments, `[[...rest]]`: zero or more
+ */
+export function compilePathPattern(pattern: string): CompiledPathPattern {
+  const params: PathParam[] = []
+  const segments: PathSegmentKind[] = []
+  const addParam = (placeholder: string) => {
+    const param = parseParam(placeholder, pattern)
+    if (params.some(existing => existing.name === param.name)) {
+      throw new Error(`Duplicate path param '${param.name}' in '${pattern}'`)
+    }
+    params.push(param)
+    return param
+  }
+
+  const source = pattern.split('/').map((segment, index, all) => {
+    const prefix = index === 0 ? '' : '/'
+    const wholeSegment = segment.match(/^\[\[?(?:\.\.\.)?[^\]]+\]\]?$/)
+    if (wholeSegment) {
+      const param = addParam(segment)
+      if (param.catchAll && index !== all.length - 1) {
+        throw new Error(`Catch-all param '${param.name}' must be the last segment of '${pattern}'`)
+      }
+      segments.push(param.catchAll ? 'catchAll' : param.optional ? 'optional' : param.type === 'string' ? 'param' : 'typed')
+      const valuePattern = param.catchAll ? `[^/]+(?:/[^/]+)*` : PARAM_TYPE_PATTERNS[param.type]
+      return param.optional ? `(?:/(${valuePattern}))?` : `${prefix}(${valuePattern})`
+    }
+
+    let segmentSource = ''
+    let lastIndex = 0
+    let kind: PathSegmentKind = 'static'
+    for (const match of segment.matchAll(PARAM_PATTERN)) {
+      const param = addParam(match[0])
+      if (param.optional || param.catchAll) {
+        throw new Error(`Optional and catch-all params must be a whole segment in '${pattern}'`)
+      }
+      segmentSource += escapeRegExp(segment.slice(lastIndex, match.index))
+      segmentSource += `(${PARAM_TYPE_PATTERNS[param.type]})`
+      lastIndex = match.index + match[0].length
+      kind = param.type === 'string' ? 'param' : 'typed'
+    }
+    segmentSource += escapeRegExp(segment.slice(lastIndex))
+    if (index > 0 && segment !== '') segments.push(kind)
+    return `${prefix}${segmentSource}`
+  }).join('')
+
+  return {
+    pattern,
+    regex: new RegExp(`^${source}$`),
+    paramNames: params.map(param => param.name),
+    params,
+    segments,
+  }
+}
+
+/**
+ * Match a pathname against a compiled pattern. Returns the raw params, with
+ * catch-all params split into segments and missing optional params left out.
+ * Returns `null` when the pathname doesn't match.
+ */
+export function matchPath(compiled: CompiledPathPattern, pathname: string): Record<string, string | string[]> | null {
+  const match = pathname.match(compiled.regex)
+  if (!match) return null
+  const params: Record<string, string | string[]> = {}
+  compiled.params.forEach((param, index) => {
+    const value = match[index + 1]
+    if (value === undefined) return
+    params[param.name] = param.catchAll ? value.split('/') : value
+  })
+  return params
+}
+
+/**
+ * Decode the raw params from `matchPath`. Throws when a value isn't valid URI encoding.
+ */
+export function decodePathParams(rawParams: Record<string, string | string[]>) {
+  const decode = (name: string, value: string) => {
+    try {
+      return decodeURIComponent(value)
+    } catch {
+      throw new Error(`Invalid encoding of path param '${name}'`)
+    }
+  }
+  const params: Record<string, string | string[]> = {}
+  for (const [name, value] of Object.entries(rawParams)) {
+    params[name] = Array.isArray(value) ? value.map(segment => decode(name, segment)) : decode(name, value)
+  }
+  return params
+}
+
+/**
+ * Validate and coerce decoded params by their type, eg. `[id:int]` to a number.
+ * Throws when a value doesn't match its type or is out of range, and when a
+ * required param is missing, unless `partial` is set.
+ */
+export function coercePathParams(
+  compiled: CompiledPathPattern,
+  decodedParams: Record<string, string | string[]>,
+  opts: { partial?: boolean } = {},
+) {
+  const params: Record<string, PathParamValue> = {}
+  for (const param of compiled.params) {
+    const value = decodedParams[param.name]
+    if (value === undefined) {
+      if (!param.optional && !opts.partial) throw new Error(`Missing path param '${param.name}'`)
+      if (param.optional) params[param.name] = undefined
+    } else if (param.catchAll) {
+      params[param.name] = Array.isArray(value) ? value : value.split('/')
+    } else if (Array.isArray(value)) {
+      throw new Error(`Path param '${param.name}' must be a single segment, got: ${value.join('/')}`)
+    } else {
+      if (!new RegExp(`^(?:${PARAM_TYPE_PATTERNS[param.type]})$`).test(value)) {
+        throw new Error(`Path param '${param.name}' must be ${param.type === 'int' ? 'an int' : `a ${param.type}`}, got: ${value}`)
+      }
+      params[param.name] = param.type === 'int' || param.type === 'number' ? toNumber(param, value) : value
+    }
+  }
+  return params
+}
+
+/**
+ * Sort comparator that puts static segments first, then typed params, `[param]`,
+ * optional, and catch-all segments, so `/api/users/me` is tried before
+ * `/api/users/[id:int]`, and that before `/api/users/[slug]`.
+ */
+export function comparePathPatterns(a: CompiledPathPattern, b: CompiledPathPattern) {
+  const length = Math.min(a.segments.length, b.segments.length)
+  for (let i = 0; i < length; i++) {
+    const rank = SEGMENT_RANKS[a.segments[i]] - SEGMENT_RANKS[b.segments[i]]
+    if (rank !== 0) return rank
+  }
+  return b.segments.length - a.segments.length
+}
+
+function parseParam(placeholder: string, pattern: string): PathParam {
+  const optional = placeholder.startsWith('[[')
+  let inner = optional ? placeholder.slice(2, -2) : placeholder.slice(1, -1)
+  const catchAll = inner.startsWith('...')
+  if (catchAll) inner = inner.slice(3)
+  const [name, type = 'string'] = inner.split(':')
+  if (!(type in PARAM_TYPE_PATTERNS)) {
+    throw new Error(`Unknown type '${type}' of path param '${name}' in '${pattern}'. Expected one of: ${Object.keys(PARAM_TYPE_PATTERNS).join(', ')}`)
+  }
+  return { name, type: type as PathParamType, optional, catchAll }
+}
+
+function toNumber(param: PathParam, value: string) {
+  const number = Number(value)
+  if (param.type === 'int' && !Number.isSafeInteger(number)) {
+    throw new Error(`Path param '${param.name}' is out of range: ${value}`)
+  }
+  return number
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,132 @@
+import { RouteError, type Middleware, type RequestContext } from "./createRoute";
+import { setResponseHeaders } from "./headers";
+
+/**
+ * Counter storage for `rateLimit`. Counters are keyed per client and window, so
+ * a Redis-like backend can implement it with `INCR` + `PEXPIRE` and `GET`.
+ */
+export interface RateLimitStore {
+  /** Increment the counter for `key` and return the new value. The counter expires after `ttl` ms. */
+  increment(key: string, ttl: number): Promise<number> | number
+  /** Get the counter for `key`. Returns 0 when it's missing or expired. */
+  get(key: string): Promise<number> | number
+}
+
+type RateLimitOptions<TContext> = {
+  /** Maximum number of requests per window */
+  limit: number
+  /** Window size in milliseconds */
+  window: number
+  /**
+   * Identify the client, eg. `(ctx) => ctx.parsed.auth.userId`. Defaults to the
+   * client IP from `getClientIp`, which is only reliable behind a trusted proxy.
+   * Return `null` or `undefined` to skip rate limiting for the request.
+   */
+  key?: (ctx: RequestContext & TContext) => Promise<string | null | undefined> | string | null | undefined
+  /** Defaults to an in-memory store, which is only suitable for a single server instance */
+  store?: RateLimitStore
+  /** Prefix for the store keys, to share a store between limiters */
+  prefix?: string
+}
+
+/**
+ * Rate limit requests with a sliding window. Use it as a middleware:
+ *
+ * ```ts
+ * createRoute()
+ *   .parse({ auth: (ctx) => getUser(ctx.authHeader) })
+ *   .use(rateLimit({ key: (ctx) => ctx.parsed.auth.id, limit: 100, window: 60_000 }))
+ * ```
+ *
+ * The limit is estimated from the counters of the current and the previous
+ * window, weighted by how much of the previous window overlaps the sliding
+ * window. Responses get `RateLimit-Limit`, `RateLimit-Remaining`, and
+ * `RateLimit-Reset` headers. Requests over the limit fail with a 429 `RouteError`
+ * that also sets `Retry-After`.
+ */
+export function rateLimit<TContext = {}>(opts: RateLimitOptions<TContext>): Middleware<TContext> {
+  const store = opts.store ?? createMemoryRateLimitStore()
+  const prefix = opts.prefix ?? 'ratelimit'
+  const getKey = opts.key ?? ((ctx: RequestContext) => getClientIp(ctx.request))
+
+  return async (ctx, next) => {
+    const key = await getKey(ctx)
+    if (key === null || key === undefined) return next()
+
+    const now = Date.now()
+    const windowStart = Math.floor(now / opts.window) * opts.window
+    const [previousCount, currentCount] = await Promise.all([
+      store.get(`${prefix}:${key}:${windowStart - opts.window}`),
+      store.increment(`${prefix}:${key}:${windowStart}`, opts.window * 2),
+    ])
+    const previousWeight = (opts.window - (now - windowStart)) / opts.window
+    const count = Math.floor(previousCount * previousWeight) + currentCount
+
+    const resetSeconds = Math.ceil((windowStart + opts.window - now) / 1000)
+    const headers = {
+      'RateLimit-Limit': String(opts.limit),
+      'RateLimit-Remaining': String(Math.max(0, opts.limit - count)),
+      'RateLimit-Reset': String(resetSeconds),
+    }
+
+    if (count > opts.limit) {
+      throw new RouteError("Too many requests", {
+        errorCode: 'RATE_LIMITED',
+        errorMessage: `Rate limit of ${opts.limit} requests exceeded. Retry in ${resetSeconds} seconds`,
+        httpStatus: 429,
+        headers: { ...headers, 'Retry-After': String(resetSeconds) },
+      })
+    }
+
+    return setResponseHeaders(await next(), headers)
+  }
+}
+
+/**
+ * In-memory `RateLimitStore`. Expired counters are removed lazily.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, { count: number, expiresAt: number }>()
+  let nextSweepAt = 0
+
+  const sweep = (now: number) => {
+    if (now < nextSweepAt) return
+    for (const [key, counter] of counters) {
+      if (counter.expiresAt <= now) counters.delete(key)
+    }
+    nextSweepAt = now + 60_000
+  }
+
+  return {
+    increment(key, ttl) {
+      const now = Date.now()
+      sweep(now)
+      const counter = counters.get(key)
+      if (!counter || counter.expiresAt <= now) {
+        counters.set(key, { count: 1, expiresAt: now + ttl })
+        return 1
+      }
+      counter.count++
+      return counter.count
+    },
+    get(key) {
+      const counter = counters.get(key)
+      if (!counter || counter.expiresAt <= Date.now()) return 0
+      return counter.count
+    },
+  }
+}
+
+/**
+ * Get the client IP from common proxy headers. Clients can send these headers
+ * themselves, so only rely on them behind a proxy that overwrites them. Returns
+ * `undefined` without these headers, instead of letting all such clients share
+ * one limit.
+ */
+export function getClientIp(request: Request) {
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+  return forwardedFor ||
+    request.headers.get('x-real-ip') ||
+    request.headers.get('cf-connecting-ip') ||
+    undefined
+}
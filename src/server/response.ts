@@ -1,5 +1,6 @@
 import type { ErrorInfo } from "../shared/error";
 import type { ErrorCode } from "../types";
+import { isRouteError, type RouteError } from "./createRoute";
 
 const JSON_HEADERS = { "Content-Type": "application/json" };
 
@@ -11,18 +12,42 @@ export function json<T>(data: T, init: ResponseInit = {}): Response {
   });
 }
 
-export function jsonError({
-  code = "INTERNAL_ERROR",
-  message = "Internal Error",
-  details,
-  status = 400,
-}: {
-  code?: string;
-  message?: string;
-  details?: object;
-  status?: number;
-}) {
-  return Response.json({ error: { code, message, details } }, { status });
+/**
+ * Returns a JSON error Response. Accepts a `RouteError` to render its code,
+ * status, and `details` (eg. validation issues) in the same shape as the
+ * default error response of `createRoute`:
+ *
+ * ```ts
+ * createRoute({ onError: (ctx) => jsonError(ctx.error) })
+ * ```
+ */
+export function jsonError(
+  error:
+    | RouteError
+    | {
+      code?: string;
+      message?: string;
+      details?: object;
+      status?: number;
+      headers?: Record<string, string>;
+    },
+) {
+  const {
+    code = "INTERNAL_ERROR",
+    message = "Internal Error",
+    details,
+    status = 400,
+    headers,
+  } = isRouteError(error)
+    ? {
+      code: error.errorCode,
+      message: `${error.message}: ${error.errorMessage}`,
+      details: error.details,
+      status: error.httpStatus,
+      headers: error.headers,
+    }
+    : error;
+  return Response.json({ error: { code, message, details } }, { status, headers });
 }
 
 // Returns a plain text Response
@@ -68,6 +93,14 @@ export function emptyResponse(init: ResponseInit = {}): Response {
   });
 }
 
+// Returns a 304 Not Modified Response, for conditional requests
+export function notModified(init: ResponseInit = {}): Response {
+  return new Response(null, {
+    status: 304,
+    headers: init.headers,
+  });
+}
+
 // Returns a streaming Response for server-sent events
 export function stream(
   stream: ReadableStream<Uint8Array>,
@@ -84,6 +117,114 @@ export function stream(
   });
 }
 
+/** Server-sent event. `data` is JSON-encoded. */
+export type SSEMessage<TData = unknown> = {
+  data: TData;
+  event?: string;
+  id?: string;
+  /** Reconnection delay for the client, in milliseconds */
+  retry?: number;
+};
+
+declare const SSE_EVENTS: unique symbol;
+
+/** SSE response that carries its event types, for `inferRouteType` */
+export type SSEResponse<TEvent extends SSEMessage = SSEMessage> = Response & {
+  readonly [SSE_EVENTS]?: TEvent;
+};
+
+/** Event types of an `SSEResponse`, `never` for other values */
+export type InferSSEEvents<T> = T extends { readonly [SSE_EVENTS]?: infer TEvent }
+  ? unknown extends TEvent ? never : TEvent
+  : never;
+
+type SSEOptions = ResponseInit & {
+  /** Request to read `Last-Event-ID` from and to stop the stream when it's aborted */
+  request?: Request;
+  /** Interval of the heartbeat comments in milliseconds, to keep proxies from closing idle connections. `0` disables it. Defaults to 15 seconds. */
+  heartbeat?: number;
+};
+
+/**
+ * Returns a server-sent events Response. Events are sent as they come, and the
+ * stream is closed when `handler` returns. Example:
+ *
+ * ```ts
+ * type ImportEvent =
+ *   | { event: "progress"; data: { percent: number } }
+ *   | { event: "done"; data: { url: string } };
+ *
+ * createRoute().handle((ctx) =>
+ *   sse<ImportEvent>(async (send, signal, { lastEventId }) => {
+ *     for await (const percent of runImport({ from: lastEventId, signal })) {
+ *       send({ event: "progress", data: { percent }, id: String(percent) });
+ *     }
+ *     send({ event: "done", data: { url: "/imports/1" } });
+ *   }, { request: ctx.request }),
+ * );
+ * ```
+ *
+ * `signal` is aborted when the client disconnects. Errors thrown by `handler`
+ * are sent as an `error` event before the stream is closed.
+ */
+export function sse<TEvent extends SSEMessage = SSEMessage>(
+  handler: (
+    send: (message: TEvent) => void,
+    signal: AbortSignal,
+    info: { lastEventId?: string },
+  ) => Promise<void> | void,
+  opts: SSEOptions = {},
+): SSEResponse<TEvent> {
+  const { request, heartbeat = 15_000, ...init } = opts;
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const readable = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeatTimer);
+        controller.close();
+      };
+
+      request?.signal.addEventListener("abort", () => abortController.abort());
+      abortController.signal.addEventListener("abort", close);
+      if (heartbeat > 0) heartbeatTimer = setInterval(() => write(": ping\n\n"), heartbeat);
+
+      const lastEventId = request?.headers.get("last-event-id") ?? undefined;
+      Promise.resolve()
+        .then(() => handler((message) => write(formatSSEMessage(message)), abortController.signal, { lastEventId }))
+        .catch((error) => write(formatSSEMessage({ event: "error", data: { message: (error as Error)?.message } })))
+        .finally(close);
+    },
+    cancel() {
+      closed = true;
+      clearInterval(heartbeatTimer);
+      abortController.abort();
+    },
+  });
+
+  return stream(readable, init) as SSEResponse<TEvent>;
+}
+
+/** Encode an event in the `text/event-stream` format */
+export function formatSSEMessage(message: SSEMessage): string {
+  // Line breaks would end the field early
+  const singleLine = (value: string) => value.replace(/[\r\n]/g, "");
+  let frame = "";
+  if (message.event) frame += `event: ${singleLine(message.event)}\n`;
+  if (message.id !== undefined) frame += `id: ${singleLine(message.id)}\n`;
+  if (message.retry !== undefined) frame += `retry: ${message.retry}\n`;
+  frame += `data: ${JSON.stringify(message.data)}\n\n`;
+  return frame;
+}
+
 // Returns a 400 Bad Request Response
 export function badRequest(
   message = "Bad Request",
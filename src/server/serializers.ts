@@ -0,0 +1,195 @@
+/**
+ * Encodes handler results for `createRoute({ serializers })`. The serializer is
+ * picked by the `Accept` header of the request, in the order they are listed.
+ */
+export type Serializer = {
+  /** Media type of the encoded body, eg. `application/json` */
+  contentType: string
+  /** Whether the value can be encoded, eg. CSV only supports arrays of rows. Defaults to `true`. */
+  canSerialize?: (value: unknown) => boolean
+  serialize: (value: unknown) => BodyInit
+}
+
+/** JSON. `BigInt` values are sent as strings and `Date` values as ISO strings. */
+export const jsonSerializer: Serializer = {
+  contentType: 'application/json',
+  canSerialize: (value) => !isAsyncIterable(value),
+  serialize: (value) => stringifyJson(value),
+}
+
+/**
+ * JSON that keeps `Date`, `Map`, `Set`, `BigInt`, and `undefined`, in the shape
+ * of superjson: `{ json, meta: { values: { [path]: type } } }`. Decode it with
+ * `deserializeSuperjson()`.
+ */
+export const superjsonSerializer: Serializer = {
+  contentType: 'application/vnd.superjson+json',
+  canSerialize: (value) => !isAsyncIterable(value),
+  serialize: (value) => JSON.stringify(serializeSuperjson(value)),
+}
+
+/** Newline-delimited JSON for async iterables, streamed as the items come */
+export const ndjsonSerializer: Serializer = {
+  contentType: 'application/x-ndjson',
+  canSerialize: isAsyncIterable,
+  serialize: (value) => {
+    const iterator = (value as AsyncIterable<unknown>)[Symbol.asyncIterator]()
+    const encoder = new TextEncoder()
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { value: item, done } = await iterator.next()
+        if (done) return controller.close()
+        controller.enqueue(encoder.encode(`${stringifyJson(item)}\n`))
+      },
+      async cancel() {
+        await iterator.return?.()
+      },
+    })
+  },
+}
+
+/** CSV for arrays of rows. Columns are the keys of the rows, in order of appearance. */
+export const csvSerializer: Serializer = {
+  contentType: 'text/csv',
+  canSerialize: (value) => Array.isArray(value) &&
+    value.every(row => row !== null && typeof row === 'object' && !Array.isArray(row)),
+  serialize: (value) => {
+    const rows = value as Record<string, unknown>[]
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row)))]
+    if (columns.length === 0) return ''
+    const lines = [
+      columns.map(escapeCsvValue).join(','),
+      ...rows.map(row => columns.map(column => escapeCsvValue(row[column])).join(',')),
+    ]
+    return `${lines.join('\r\n')}\r\n`
+  },
+}
+
+/**
+ * Pick the serializer for the `Accept` header. Returns `undefined` when none of
+ * the serializers that can encode the value is acceptable.
+ */
+export function negotiateSerializer(accept: string | null, serializers: Serializer[], value: unknown) {
+  const candidates = serializers.filter(serializer => serializer.canSerialize?.(value) ?? true)
+  const acceptedTypes = parseAccept(accept)
+  if (acceptedTypes.length === 0) return candidates[0]
+  for (const { type } of acceptedTypes) {
+    const serializer = candidates.find(candidate => matchesMediaType(type, candidate.contentType))
+    if (serializer) return serializer
+  }
+  return undefined
+}
+
+/**
+ * Whether the `Accept` header accepts any of the serializers, regardless of the
+ * value. Checked before the handler runs, so unacceptable requests have no side effects.
+ */
+export function acceptsAnySerializer(accept: string | null, serializers: Serializer[]) {
+  const acceptedTypes = parseAccept(accept)
+  if (acceptedTypes.length === 0) return true
+  return acceptedTypes.some(({ type }) => serializers.some(serializer => matchesMediaType(type, serializer.contentType)))
+}
+
+// Media ranges sorted by quality, without the ones with `q=0`
+function parseAccept(accept: string | null) {
+  if (!accept) return []
+  return accept
+    .split(',')
+    .map((part, index) => {
+      const [type, ...params] = part.split(';').map(value => value.trim().toLowerCase())
+      const quality = params.find(param => param.startsWith('q='))
+      return { type, q: quality ? Number(quality.slice(2)) : 1, index }
+    })
+    .filter(range => range.type && range.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+}
+
+function matchesMediaType(range: string, contentType: string) {
+  if (range === '*/*') return true
+  if (range.endsWith('/*')) return contentType.startsWith(range.slice(0, -1))
+  return range === contentType
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return !!value && typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function'
+}
+
+function stringifyJson(value: unknown) {
+  return JSON.stringify(value, (_, item) => typeof item === 'bigint' ? item.toString() : item)
+}
+
+function escapeCsvValue(value: unknown) {
+  if (value === null || value === undefined) return ''
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? stringifyJson(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+type SuperjsonType = 'Date' | 'bigint' | 'Map' | 'Set' | 'undefined'
+
+export type SuperjsonResult = {
+  json: unknown
+  meta?: { values: Record<string, SuperjsonType> }
+}
+
+/** Encode a value as `{ json, meta }`. Paths in `meta.values` are dot-separated, with dots in keys escaped. */
+export function serializeSuperjson(value: unknown): SuperjsonResult {
+  const values: Record<string, SuperjsonType> = {}
+  const walk = (item: unknown, path: string[]): unknown => {
+    const annotate = (type: SuperjsonType) => {
+      values[path.map(segment => segment.replace(/\./g, '\\.')).join('.')] = type
+    }
+    if (item === undefined) {
+      annotate('undefined')
+      return null
+    }
+    if (typeof item === 'bigint') {
+      annotate('bigint')
+      return item.toString()
+    }
+    if (item instanceof Date) {
+      annotate('Date')
+      return item.toISOString()
+    }
+    if (item instanceof Map) {
+      annotate('Map')
+      return [...item.entries()].map((entry, index) => walk(entry, [...path, String(index)]))
+    }
+    if (item instanceof Set) {
+      annotate('Set')
+      return [...item].map((entry, index) => walk(entry, [...path, String(index)]))
+    }
+    if (Array.isArray(item)) {
+      return item.map((entry, index) => walk(entry, [...path, String(index)]))
+    }
+    if (item !== null && typeof item === 'object') {
+      return Object.fromEntries(Object.entries(item).map(([key, entry]) => [key, walk(entry, [...path, key])]))
+    }
+    return item
+  }
+  const json = walk(value, [])
+  return Object.keys(values).length > 0 ? { json, meta: { values } } : { json }
+}
+
+/** Decode the output of `superjsonSerializer` */
+export function deserializeSuperjson<T = unknown>({ json, meta }: SuperjsonResult): T {
+  if (!meta) return json as T
+  // Revive the deepest paths first so containers are rebuilt from revived entries
+  const entries = Object.entries(meta.values)
+    .map(([path, type]) => [path === '' ? [] : path.split(/(?<!\\)\./).map(segment => segment.replace(/\\\./g, '.')), type] as const)
+    .sort((a, b) => b[0].length - a[0].length)
+  const root = { value: json }
+  for (const [path, type] of entries) {
+    const segments = ['value', ...path]
+    const parent = segments.slice(0, -1).reduce<any>((node, segment) => node[segment], root)
+    const key = segments[segments.length - 1]
+    const item = parent[key]
+    parent[key] = type === 'Date' ? new Date(item)
+      : type === 'bigint' ? BigInt(item)
+      : type === 'Map' ? new Map(item)
+      : type === 'Set' ? new Set(item)
+      : undefined
+  }
+  return root.value as T
+}
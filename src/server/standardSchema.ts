@@ -0,0 +1,122 @@
+/**
+ * Standard Schema v1 interface, implemented by Zod (3.24+), ArkType, Valibot, etc.
+ * Copied from the spec so we don't depend on any validation library.
+ *
+ * @see https://github.com/standard-schema/standard-schema
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaV1.Props<Input, Output>
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>
+    readonly types?: Types<Input, Output> | undefined
+    /** Standard JSON Schema extension. Available in Zod 4.2+ and ArkType 2.1.28+ */
+    readonly jsonSchema?: {
+      readonly input: (options: { target: string }) => Record<string, unknown>
+      readonly output: (options: { target: string }) => Record<string, unknown>
+    }
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult
+
+  export interface SuccessResult<Output> {
+    readonly value: Output
+    readonly issues?: undefined
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>
+  }
+
+  export interface Issue {
+    readonly message: string
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input
+    readonly output: Output
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<Schema['~standard']['types']>['input']
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<Schema['~standard']['types']>['output']
+}
+
+/** Validation issue normalized from Standard Schema, Zod, or ArkType errors */
+export type ValidationIssue = {
+  /** Dot-separated path to the invalid value, eg. `user.emails.0`. Empty for the root value. */
+  path: string
+  message: string
+  code?: string
+}
+
+/**
+ * Normalize Standard Schema issues. Keeps the vendor issue `code` when available (Zod, ArkType).
+ */
+export function normalizeIssues(issues: ReadonlyArray<StandardSchemaV1.Issue>): ValidationIssue[] {
+  return issues.map(issue => {
+    const path = (issue.path ?? [])
+      .map(segment => typeof segment === 'object' ? segment.key : segment)
+      .map(String)
+      .join('.')
+    const code = (issue as { code?: unknown }).code
+    return {
+      path,
+      message: issue.message,
+      ...(typeof code === 'string' && { code }),
+    }
+  })
+}
+
+/**
+ * Get normalized issues from an error thrown by a validation library, eg. `ZodError.issues`
+ * or ArkType's `TraversalError.arkErrors`. Returns `undefined` for other errors.
+ */
+export function issuesFromError(error: unknown): ValidationIssue[] | undefined {
+  if (!error || typeof error !== 'object') return undefined
+  const issues = (error as { issues?: unknown }).issues ?? (error as { arkErrors?: unknown }).arkErrors
+  if (!Array.isArray(issues) || issues.length === 0) return undefined
+  if (!issues.every(issue => typeof issue?.message === 'string')) return undefined
+  // Copy into a plain array, ArkType's `ArkErrors` is an array subclass
+  return normalizeIssues([...issues])
+}
+
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return !!value &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    '~standard' in value &&
+    typeof (value as StandardSchemaV1)['~standard']?.validate === 'function'
+}
+
+/**
+ * Convert a schema to JSON Schema (draft 2020-12). Uses the Standard JSON Schema
+ * extension when available, then falls back to Zod's `toJSONSchema()` and
+ * ArkType's `toJsonSchema()`. Returns `undefined` if the schema can't be converted.
+ */
+export function toJsonSchema(schema: StandardSchemaV1, io: 'input' | 'output' = 'input'): Record<string, unknown> | undefined {
+  const target = 'draft-2020-12'
+  const candidate = schema as StandardSchemaV1 & {
+    toJSONSchema?: () => Record<string, unknown>
+    toJsonSchema?: () => Record<string, unknown>
+  }
+  try {
+    const jsonSchema = candidate['~standard'].jsonSchema?.[io]({ target })
+      ?? candidate.toJSONSchema?.()
+      ?? candidate.toJsonSchema?.()
+    if (!jsonSchema) return undefined
+    const { $schema: _, ...rest } = jsonSchema
+    return rest
+  } catch {
+    // Some schemas (eg. transforms) can't be represented in JSON Schema
+    return undefined
+  }
+}
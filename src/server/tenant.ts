@@ -0,0 +1,127 @@
+import { RouteError, type RequestContext } from "./createRoute";
+import type { AuthorizeRule } from "./authorize";
+import type { PathParamValue } from "./pathPattern";
+
+/** Where the tenant ID is taken from */
+export type TenantSource = 'subdomain' | 'path' | 'header'
+
+/** Context of the `tenant` parse field. `pathParams` includes the params of `parse({ path })`. */
+type TenantContext = RequestContext & { pathParams: Record<string, PathParamValue> }
+
+type ResolveTenantOptions<TTenant> = {
+  /** Sources of the tenant ID, tried in order */
+  from: TenantSource | TenantSource[]
+  /** Path param with the tenant ID. Defaults to `orgId`. */
+  param?: string
+  /** Header with the tenant ID. Defaults to `x-tenant-id`. */
+  header?: string
+  /**
+   * Domain the tenant subdomains are under, eg. `example.com` for `acme.example.com`.
+   * Required for the `subdomain` source, other hosts have no tenant subdomain.
+   */
+  rootDomain?: string
+  /** Load the tenant. Return `null` or `undefined` for unknown tenants. */
+  load: (tenantId: string, ctx: TenantContext) => Promise<TTenant | null | undefined> | TTenant | null | undefined
+}
+
+/**
+ * Resolve the tenant of the request. Use it as the `tenant` parse field, after
+ * `path` when the ID is a path param:
+ *
+ * ```ts
+ * createRoute()
+ *   .parse({
+ *     path: '/api/orgs/[orgId]/projects',
+ *     auth: sessionCookie({ ... }),
+ *     tenant: resolveTenant({ from: ['path', 'header'], load: (id) => db.orgs.find(id) }),
+ *   })
+ *   .authorize(requireTenantMember((user, org) => org.memberIds.includes(user.id)))
+ * ```
+ *
+ * Requests without a tenant ID fail with 400 `TENANT_REQUIRED`, and unknown
+ * tenants with 404 `TENANT_NOT_FOUND`.
+ */
+export function resolveTenant<TTenant>(opts: ResolveTenantOptions<TTenant>) {
+  const sources = Array.isArray(opts.from) ? opts.from : [opts.from]
+  const { rootDomain } = opts
+  if (sources.includes('subdomain') && !rootDomain) {
+    throw new Error('resolveTenant requires `rootDomain` to resolve the tenant from the subdomain')
+  }
+  return async (ctx: TenantContext): Promise<TTenant> => {
+    let tenantId: string | undefined
+    for (const source of sources) {
+      tenantId = source === 'path' ? ctx.pathParams[opts.param ?? 'orgId']?.toString()
+        : source === 'header' ? ctx.request.headers.get(opts.header ?? 'x-tenant-id') ?? undefined
+        : getSubdomain(ctx.request, rootDomain!)
+      if (tenantId) break
+    }
+    if (!tenantId) {
+      throw new RouteError("Bad request", {
+        errorCode: 'TENANT_REQUIRED',
+        errorMessage: `Missing tenant ID in ${sources.join(' or ')}`,
+        httpStatus: 400,
+      })
+    }
+
+    const tenant = await opts.load(tenantId, ctx)
+    if (tenant === null || tenant === undefined) throw tenantNotFound()
+    return tenant
+  }
+}
+
+/**
+ * Rule for `.authorize()` that only allows members of `ctx.parsed.tenant`.
+ * Non-members get 403, or the same 404 as unknown tenants with `hideTenant`,
+ * so they can't tell which tenants exist.
+ */
+export function requireTenantMember<TUser, TTenant>(
+  isMember: (user: TUser, tenant: TTenant) => Promise<boolean> | boolean,
+  opts: { hideTenant?: boolean } = {},
+): AuthorizeRule<{ parsed: { auth: TUser, tenant: TTenant } }> {
+  return {
+    permission: 'tenant:member',
+    message: 'Not a member of the tenant',
+    check: async (ctx) => {
+      const allowed = await isMember(ctx.parsed.auth, ctx.parsed.tenant)
+      if (!allowed && opts.hideTenant) throw tenantNotFound()
+      return allowed
+    },
+  }
+}
+
+/**
+ * Rule for `.authorize()` that checks `ctx.parsed.resource` belongs to
+ * `ctx.parsed.tenant`. Resources of other tenants get 404, as if they didn't exist.
+ */
+export function requireSameTenant<TResource, TTenant extends { id: unknown }>(
+  tenantIdOf: (resource: TResource) => unknown,
+): AuthorizeRule<{ parsed: { resource: TResource, tenant: TTenant } }> {
+  return {
+    permission: 'tenant:resource',
+    check: (ctx) => {
+      if (tenantIdOf(ctx.parsed.resource) !== ctx.parsed.tenant.id) {
+        throw new RouteError("Not found", {
+          errorCode: 'RESOURCE_NOT_FOUND',
+          errorMessage: 'Resource not found',
+          httpStatus: 404,
+        })
+      }
+      return true
+    },
+  }
+}
+
+function tenantNotFound() {
+  return new RouteError("Not found", {
+    errorCode: 'TENANT_NOT_FOUND',
+    errorMessage: 'Tenant not found',
+    httpStatus: 404,
+  })
+}
+
+function getSubdomain(request: Request, rootDomain: string) {
+  const host = (request.headers.get('host') ?? new URL(request.url).host).split(':')[0].toLowerCase()
+  if (!host.endsWith(`.${rootDomain.toLowerCase()}`)) return undefined
+  const subdomain = host.slice(0, -(rootDomain.length + 1))
+  return subdomain === 'www' ? undefined : subdomain
+}
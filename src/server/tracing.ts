@@ -0,0 +1,121 @@
+export type SpanAttributeValue = string | number | boolean
+
+export type SpanAttributes = Record<string, SpanAttributeValue>
+
+/** Same values as OpenTelemetry's `SpanStatusCode` */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const
+
+export type SpanStatus = {
+  code: typeof SpanStatusCode[keyof typeof SpanStatusCode]
+  message?: string
+}
+
+/** Subset of the OpenTelemetry `Span` used by `createRoute`. OpenTelemetry spans satisfy it as is. */
+export interface RouteSpan {
+  setAttribute(key: string, value: SpanAttributeValue): unknown
+  setStatus(status: SpanStatus): unknown
+  recordException(exception: Error): unknown
+  end(): void
+}
+
+/**
+ * Tracer for `createRoute({ tracer })`. Adapter for OpenTelemetry:
+ *
+ * ```ts
+ * import { context, trace, type Span } from '@opentelemetry/api'
+ *
+ * const otelTracer = trace.getTracer('api')
+ * const tracer: RouteTracer = {
+ *   startSpan: (name, { attributes, parent }) => otelTracer.startSpan(
+ *     name,
+ *     { attributes },
+ *     parent ? trace.setSpan(context.active(), parent as Span) : undefined,
+ *   ),
+ * }
+ * ```
+ */
+export interface RouteTracer {
+  startSpan(name: string, options: { attributes?: SpanAttributes, parent?: RouteSpan }): RouteSpan
+}
+
+/** Span recorded by `createMemoryTracer` */
+export type RecordedSpan = {
+  id: number
+  parentId?: number
+  name: string
+  attributes: SpanAttributes
+  status: SpanStatus
+  exceptions: Error[]
+  /** Unix timestamp in milliseconds */
+  startTime: number
+  durationMs?: number
+  ended: boolean
+}
+
+/**
+ * In-memory tracer that records spans, eg. to assert traces in tests or to log
+ * slow steps locally. Example:
+ *
+ * ```ts
+ * const tracer = createMemoryTracer()
+ * const route = createRoute({ name: 'getUser', tracer }).parse({ ... }).handle(...)
+ *
+ * await route(request)
+ * tracer.spans.map(span => `${span.name} ${span.durationMs}ms`)
+ * ```
+ */
+export function createMemoryTracer() {
+  const spans: RecordedSpan[] = []
+  const recordedSpans = new WeakMap<RouteSpan, RecordedSpan>()
+  let nextId = 1
+
+  const tracer: RouteTracer = {
+    startSpan(name, options) {
+      const startedAt = performance.now()
+      const recorded: RecordedSpan = {
+        id: nextId++,
+        parentId: options.parent ? recordedSpans.get(options.parent)?.id : undefined,
+        name,
+        attributes: { ...options.attributes },
+        status: { code: SpanStatusCode.UNSET },
+        exceptions: [],
+        startTime: Date.now(),
+        ended: false,
+      }
+      spans.push(recorded)
+
+      const span: RouteSpan = {
+        setAttribute(key, value) {
+          recorded.attributes[key] = value
+        },
+        setStatus(status) {
+          recorded.status = status
+        },
+        recordException(exception) {
+          recorded.exceptions.push(exception)
+        },
+        end() {
+          if (recorded.ended) return
+          recorded.ended = true
+          recorded.durationMs = performance.now() - startedAt
+        },
+      }
+      recordedSpans.set(span, recorded)
+      return span
+    },
+  }
+
+  return {
+    ...tracer,
+    /** Recorded spans in the order they were started */
+    spans,
+    /** Remove the recorded spans */
+    reset() {
+      spans.length = 0
+    },
+  }
+}
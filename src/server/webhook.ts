@@ -0,0 +1,194 @@
+import { RouteError } from "./createRoute";
+
+/** Signature header format of a webhook provider */
+export type WebhookScheme = {
+  /** Read the signatures, and the timestamp and ID when signed, from the request headers */
+  parseHeaders(headers: Headers): { signatures: string[], timestamp?: number, id?: string } | undefined
+  /** Content that is signed, eg. `${timestamp}.${body}` */
+  signedContent(opts: { body: Uint8Array, timestamp?: number, id?: string }): Uint8Array
+  /** Encoding of the signatures */
+  encoding: 'hex' | 'base64'
+  /** Key bytes of a secret. Defaults to the UTF-8 bytes of the secret. */
+  secretKey?(secret: string): Uint8Array
+}
+
+/** Webhook verified by `verifyWebhook` */
+export type VerifiedWebhook<TPayload = unknown> = {
+  /** Request body parsed as JSON */
+  payload: TPayload
+  /** Request body as text, as it was signed */
+  rawBody: string
+  /** Delivery ID, when the provider sends one */
+  id?: string
+  /** Time the webhook was signed, for schemes that sign a timestamp */
+  timestamp?: Date
+}
+
+type VerifyWebhookOptions = {
+  /** One of `webhookSchemes` by name, or a custom scheme */
+  scheme: keyof typeof webhookSchemes | WebhookScheme
+  /** Signing secret. Pass several during secret rotation, any of them is accepted. */
+  secret: string | string[]
+  /** Maximum age of the signed timestamp in seconds. Defaults to 300. */
+  tolerance?: number
+}
+
+const encoder = new TextEncoder()
+
+// `${prefix}${body}`
+function concatBytes(prefix: string, body: Uint8Array) {
+  const prefixBytes = encoder.encode(prefix)
+  const bytes = new Uint8Array(prefixBytes.length + body.length)
+  bytes.set(prefixBytes)
+  bytes.set(body, prefixBytes.length)
+  return bytes
+}
+
+// Comma-separated `key=value` pairs, eg. `t=1700000000,v1=abc,v1=def`
+function parsePairs(header: string) {
+  return header.split(',').map(pair => {
+    const index = pair.indexOf('=')
+    return [pair.slice(0, index).trim(), pair.slice(index + 1).trim()] as const
+  })
+}
+
+/**
+ * Signature schemes of common webhook providers:
+ * - `stripe`: `Stripe-Signature: t=<timestamp>,v1=<hex>`, signs `${timestamp}.${body}`
+ * - `github`: `X-Hub-Signature-256: sha256=<hex>`, signs the body
+ * - `svix`: `svix-signature: v1,<base64>` (or `webhook-signature` of Standard Webhooks),
+ *   signs `${id}.${timestamp}.${body}` with the base64 key of a `whsec_` secret
+ */
+export const webhookSchemes = {
+  stripe: {
+    parseHeaders(headers) {
+      const header = headers.get('stripe-signature')
+      if (!header) return undefined
+      const pairs = parsePairs(header)
+      const timestamp = Number(pairs.find(([key]) => key === 't')?.[1])
+      return {
+        signatures: pairs.filter(([key]) => key === 'v1').map(([, value]) => value),
+        timestamp: Number.isNaN(timestamp) ? undefined : timestamp,
+      }
+    },
+    signedContent: ({ body, timestamp }) => concatBytes(`${timestamp}.`, body),
+    encoding: 'hex',
+  },
+  github: {
+    parseHeaders(headers) {
+      const header = headers.get('x-hub-signature-256')
+      if (!header?.startsWith('sha256=')) return undefined
+      return { signatures: [header.slice('sha256='.length)], id: headers.get('x-github-delivery') ?? undefined }
+    },
+    signedContent: ({ body }) => body,
+    encoding: 'hex',
+  },
+  svix: {
+    parseHeaders(headers) {
+      const header = (name: string) => headers.get(`svix-${name}`) ?? headers.get(`webhook-${name}`)
+      const signature = header('signature')
+      const id = header('id')
+      const timestamp = Number(header('timestamp'))
+      if (!signature || !id || Number.isNaN(timestamp)) return undefined
+      return {
+        // Space-separated `v1,<base64>`
+        signatures: signature.split(' ').filter(part => part.startsWith('v1,')).map(part => part.slice(3)),
+        timestamp,
+        id,
+      }
+    },
+    signedContent: ({ body, timestamp, id }) => concatBytes(`${id}.${timestamp}.`, body),
+    encoding: 'base64',
+    secretKey: (secret) => Uint8Array.from(atob(secret.replace(/^whsec_/, '')), char => char.charCodeAt(0)),
+  },
+} satisfies Record<string, WebhookScheme>
+
+/**
+ * Verify the HMAC-SHA256 signature of a webhook. Use it as the `webhook` parse
+ * field, which gets the raw request body:
+ *
+ * ```ts
+ * createRoute()
+ *   .parse({
+ *     method: 'POST',
+ *     webhook: verifyWebhook<Stripe.Event>({ scheme: 'stripe', secret: env.STRIPE_WEBHOOK_SECRET }),
+ *   })
+ *   .handle((ctx) => handleEvent(ctx.parsed.webhook.payload))
+ * ```
+ *
+ * Missing or invalid signatures, and timestamps older than `tolerance`, fail
+ * with a 401 `RouteError` with `errorCode: 'INVALID_SIGNATURE'`.
+ */
+export function verifyWebhook<TPayload = unknown>(opts: VerifyWebhookOptions) {
+  const scheme = typeof opts.scheme === 'string' ? webhookSchemes[opts.scheme] as WebhookScheme : opts.scheme
+  const secrets = Array.isArray(opts.secret) ? opts.secret : [opts.secret]
+  const tolerance = opts.tolerance ?? 300
+  // Fail when the route is defined, eg. for a missing env var, rather than on every request
+  const keyBytes = secrets.map(secret => {
+    let bytes: Uint8Array
+    try {
+      bytes = scheme.secretKey?.(secret) ?? encoder.encode(secret)
+    } catch {
+      throw new Error('verifyWebhook: invalid webhook secret')
+    }
+    if (bytes.length === 0) throw new Error('verifyWebhook: webhook secret is empty')
+    return bytes
+  })
+  // Imported on the first request, so a failure reaches the request instead of being unhandled
+  let keys: Promise<CryptoKey[]> | undefined
+  const importKeys = () => {
+    keys ??= Promise.all(keyBytes.map(bytes => crypto.subtle.importKey(
+      'raw',
+      bytes as Uint8Array<ArrayBuffer>,
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    )))
+    keys.catch(() => { keys = undefined })
+    return keys
+  }
+
+  return async (ctx: { request: Request, rawBody: ArrayBuffer }): Promise<VerifiedWebhook<TPayload>> => {
+    const signed = scheme.parseHeaders(ctx.request.headers)
+    if (!signed || signed.signatures.length === 0) throw invalidSignature('Missing webhook signature')
+
+    if (signed.timestamp !== undefined) {
+      const age = Math.abs(Date.now() / 1000 - signed.timestamp)
+      if (age > tolerance) throw invalidSignature(`Webhook timestamp is outside the tolerance of ${tolerance} seconds`)
+    }
+
+    const body = new Uint8Array(ctx.rawBody)
+    const content = scheme.signedContent({ body, timestamp: signed.timestamp, id: signed.id })
+    const expectedSignatures = await Promise.all((await importKeys()).map(async key => {
+      const digest = new Uint8Array(await crypto.subtle.sign('HMAC', key, content as Uint8Array<ArrayBuffer>))
+      return scheme.encoding === 'hex'
+        ? Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('')
+        : btoa(String.fromCharCode(...digest))
+    }))
+    const isValid = expectedSignatures.some(expected => signed.signatures.some(signature => timingSafeEqual(expected, signature)))
+    if (!isValid) throw invalidSignature('Webhook signature does not match')
+
+    const rawBody = new TextDecoder().decode(body)
+    return {
+      payload: JSON.parse(rawBody) as TPayload,
+      rawBody,
+      id: signed.id,
+      timestamp: signed.timestamp !== undefined ? new Date(signed.timestamp * 1000) : undefined,
+    }
+  }
+}
+
+function invalidSignature(errorMessage: string) {
+  return new RouteError("Invalid webhook signature", {
+    errorCode: 'INVALID_SIGNATURE',
+    errorMessage,
+    httpStatus: 401,
+  })
+}
+
+// Compare without returning early, so the time doesn't leak how much of the signature matched
+function timingSafeEqual(a: string, b: string) {
+  let diff = a.length ^ b.length
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
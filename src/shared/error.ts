@@ -1,4 +1,4 @@
-import { RouteError } from "../server"
+import { RouteError, type ValidationIssue } from "../server"
 import type { ErrorCode } from "../types"
 
 export type AppErrorParams = {
@@ -43,7 +43,10 @@ export function formatAppError(error: AppError) {
 export type ErrorInfo<ErrorDetails = unknown> = {
   message: string
   code?: string
-  details?: Record<string, ErrorDetails>
+  /**
+   * Structured details, eg. validation issues (`{ path, message, code }[]`) from `RouteError`
+   */
+  details?: Record<string, ErrorDetails> | ValidationIssue[]
   /**
    * Whether the error received should forward the error to the error reporting tool
    */
@@ -64,6 +67,7 @@ export const getErrorInfo = (error: any): ErrorInfo | null => {
       message: error.message,
       report: error.report,
       httpStatus: error.httpStatus,
+      ...(error.details && { details: error.details }),
     }
   }
   return null
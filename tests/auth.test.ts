@@ -0,0 +1,128 @@
+import { describe, test, expect } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import { apiKey, bearerJwt, sessionCookie } from "../src/server/auth"
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+async function signJwt(claims: Record<string, unknown>, key: CryptoKey, header: Record<string, unknown>) {
+  const content = `${encode(header)}.${encode(claims)}`
+  const algorithm = header.alg === 'HS256' ? 'HMAC'
+    : header.alg === 'ES256' ? { name: 'ECDSA', hash: 'SHA-256' }
+    : 'RSASSA-PKCS1-v1_5'
+  const signature = await crypto.subtle.sign(algorithm, key, new TextEncoder().encode(content))
+  return `${content}.${Buffer.from(signature).toString('base64url')}`
+}
+
+const hmacKey = (secret: string) =>
+  crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+
+const request = (headers: Record<string, string> = {}) => new Request('http://localhost/me', { headers })
+
+const now = () => Math.floor(Date.now() / 1000)
+
+describe("bearerJwt", () => {
+  const route = createRoute()
+    .parse({ auth: bearerJwt({ secret: 'jwt-secret', audience: 'api', issuer: 'https://auth.example.com' }) })
+    .handle((ctx) => ({ id: ctx.parsed.auth.id, email: ctx.parsed.auth.email }))
+
+  const claims = { sub: 'user-1', email: 'user@example.com', aud: ['api', 'web'], iss: 'https://auth.example.com' }
+
+  test("verify HS256 tokens", async () => {
+    const token = await signJwt({ ...claims, exp: now() + 60 }, await hmacKey('jwt-secret'), { alg: 'HS256', typ: 'JWT' })
+    const response = await route(request({ Authorization: `Bearer ${token}` }))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ id: 'user-1', email: 'user@example.com' })
+  })
+
+  test("reject missing, invalid, and expired tokens", async () => {
+    const expectUnauthenticated = async (headers: Record<string, string>, message: string) => {
+      const response = await route(request(headers))
+      expect(response.status).toBe(401)
+      expect(response.headers.get('WWW-Authenticate')).toBe('Bearer')
+      expect((await response.json()).error).toMatchObject({ code: 'UNAUTHENTICATED', message: `Not authenticated: ${message}` })
+    }
+
+    await expectUnauthenticated({}, 'Missing bearer token')
+    await expectUnauthenticated({ Authorization: 'Bearer not-a-jwt' }, 'Malformed token')
+
+    const forged = await signJwt({ ...claims, exp: now() + 60 }, await hmacKey('other-secret'), { alg: 'HS256' })
+    await expectUnauthenticated({ Authorization: `Bearer ${forged}` }, 'Invalid token signature')
+
+    const expired = await signJwt({ ...claims, exp: now() - 60 }, await hmacKey('jwt-secret'), { alg: 'HS256' })
+    await expectUnauthenticated({ Authorization: `Bearer ${expired}` }, 'Token expired')
+
+    const otherAudience = await signJwt({ ...claims, aud: 'admin' }, await hmacKey('jwt-secret'), { alg: 'HS256' })
+    await expectUnauthenticated({ Authorization: `Bearer ${otherAudience}` }, 'Invalid token audience')
+
+    const unsigned = `${encode({ alg: 'none' })}.${encode(claims)}.`
+    await expectUnauthenticated({ Authorization: `Bearer ${unsigned}` }, 'Unsupported token algorithm: none')
+
+    const badSignature = `${encode({ alg: 'HS256' })}.${encode(claims)}.@@@`
+    await expectUnauthenticated({ Authorization: `Bearer ${badSignature}` }, 'Malformed token')
+  })
+
+  test("verify RS256 and ES256 tokens with a JWKS", async () => {
+    const rsa = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true,
+      ['sign', 'verify'],
+    )
+    const ec = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])
+    const keys = [
+      { ...await crypto.subtle.exportKey('jwk', rsa.publicKey), kid: 'rsa-1' },
+      { ...await crypto.subtle.exportKey('jwk', ec.publicKey), kid: 'ec-1' },
+    ]
+    const jwksRoute = createRoute()
+      .parse({ auth: bearerJwt({ jwks: { keys }, toUser: (claims) => ({ userId: claims.sub, plan: claims.plan as string }) }) })
+      .handle((ctx) => ctx.parsed.auth)
+
+    const rsaToken = await signJwt({ sub: 'user-1', plan: 'pro' }, rsa.privateKey, { alg: 'RS256', kid: 'rsa-1' })
+    expect(await (await jwksRoute(request({ Authorization: `Bearer ${rsaToken}` }))).json()).toEqual({ userId: 'user-1', plan: 'pro' })
+
+    const ecToken = await signJwt({ sub: 'user-2', plan: 'free' }, ec.privateKey, { alg: 'ES256', kid: 'ec-1' })
+    expect(await (await jwksRoute(request({ Authorization: `Bearer ${ecToken}` }))).json()).toEqual({ userId: 'user-2', plan: 'free' })
+
+    const unknownKey = await signJwt({ sub: 'user-1' }, rsa.privateKey, { alg: 'RS256', kid: 'rsa-2' })
+    expect((await jwksRoute(request({ Authorization: `Bearer ${unknownKey}` }))).status).toBe(401)
+  })
+})
+
+describe("sessionCookie", () => {
+  const sessions: Record<string, { id: string, name: string }> = { 'session-1': { id: 'user-1', name: 'Alice' } }
+  const route = createRoute()
+    .parse({ auth: sessionCookie({ name: 'session', verify: (sessionId) => sessions[sessionId] }) })
+    .handle((ctx) => ({ name: ctx.parsed.auth.name }))
+
+  test("get user from the session cookie", async () => {
+    const response = await route(request({ Cookie: 'theme=dark; session=session-1' }))
+    expect(await response.json()).toEqual({ name: 'Alice' })
+  })
+
+  test("reject missing and invalid sessions", async () => {
+    const missing = await route(request())
+    expect(missing.status).toBe(401)
+    expect((await missing.json()).error.message).toBe('Not authenticated: Missing `session` cookie')
+
+    const invalid = await route(request({ Cookie: 'session=expired' }))
+    expect((await invalid.json()).error).toMatchObject({ code: 'UNAUTHENTICATED', message: 'Not authenticated: Invalid or expired session' })
+
+    const malformed = await route(request({ Cookie: 'session=%E0%A4%A' }))
+    expect(malformed.status).toBe(401)
+    expect((await malformed.json()).error).toMatchObject({ code: 'UNAUTHENTICATED', message: 'Not authenticated: Invalid session cookie' })
+  })
+})
+
+describe("apiKey", () => {
+  const route = createRoute()
+    .parse({ auth: apiKey({ lookup: (key) => key === 'sk_live_1' ? { id: 'user-1' } : null }) })
+    .handle((ctx) => ({ id: ctx.parsed.auth.id }))
+
+  test("look up the key from X-API-Key or the bearer token", async () => {
+    expect(await (await route(request({ 'X-API-Key': 'sk_live_1' }))).json()).toEqual({ id: 'user-1' })
+    expect(await (await route(request({ Authorization: 'Bearer sk_live_1' }))).json()).toEqual({ id: 'user-1' })
+
+    const invalid = await route(request({ 'X-API-Key': 'sk_live_2' }))
+    expect(invalid.status).toBe(401)
+    expect((await invalid.json()).error.code).toBe('UNAUTHENTICATED')
+  })
+})
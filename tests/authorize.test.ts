@@ -0,0 +1,96 @@
+import { describe, test, expect } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import { definePolicies, requirePlan, requireRole } from "../src/server/authorize"
+
+type User = { id: string, role: string, subscriptionPlan: string }
+type Project = { id: string, ownerId: string, memberIds: string[] }
+
+const users: Record<string, User> = {
+  admin: { id: 'admin', role: 'admin', subscriptionPlan: 'free' },
+  alice: { id: 'alice', role: 'member', subscriptionPlan: 'pro' },
+  bob: { id: 'bob', role: 'member', subscriptionPlan: 'free' },
+}
+
+const project: Project = { id: 'project-1', ownerId: 'alice', memberIds: ['alice', 'bob'] }
+
+const request = (user: string, method = 'GET') =>
+  new Request('http://localhost/projects/project-1', { method, headers: { Authorization: user } })
+
+const authRoute = createRoute().parse({
+  auth: (ctx) => users[ctx.authHeader ?? ''] ?? null,
+  resource: () => project,
+})
+
+describe("authorize", () => {
+  test("deny with 403 when the check fails", async () => {
+    const route = authRoute
+      .authorize((ctx) => ctx.parsed.resource.memberIds.includes(ctx.parsed.auth?.id ?? ''), { message: 'Not a project member' })
+      .handle(() => ({ ok: true }))
+
+    expect((await route(request('alice'))).status).toBe(200)
+
+    const response = await route(request('admin'))
+    expect(response.status).toBe(403)
+    expect((await response.json()).error).toMatchObject({ code: 'UNAUTHORIZED', message: 'Forbidden: Not a project member' })
+  })
+
+  test("fail with 500 when the check throws", async () => {
+    const route = authRoute
+      .authorize(() => { throw new Error('Database unavailable') })
+      .handle(() => ({ ok: true }))
+
+    const response = await route(request('alice'))
+    expect(response.status).toBe(500)
+    expect((await response.json()).error.code).toBe('AUTHORIZE_ERROR')
+  })
+
+  test("require roles and plans", async () => {
+    const adminRoute = authRoute.authorize(requireRole('admin')).handle(() => ({ ok: true }))
+    expect((await adminRoute(request('admin'))).status).toBe(200)
+    const denied = await adminRoute(request('alice'))
+    expect(denied.status).toBe(403)
+    expect((await denied.json()).error.message).toBe('Forbidden: Requires role admin')
+
+    const paidRoute = authRoute.authorize(requirePlan(['pro', 'team'])).handle(() => ({ ok: true }))
+    expect((await paidRoute(request('alice'))).status).toBe(200)
+    expect((await paidRoute(request('bob'))).status).toBe(403)
+  })
+
+  test("check policies by resource and action", async () => {
+    const policies = definePolicies({
+      project: {
+        read: (user: User, project: Project) => project.memberIds.includes(user.id),
+        delete: (user: User, project: Project) => project.ownerId === user.id || user.role === 'admin',
+      },
+    })
+    const deleteRoute = authRoute.authorize(policies.require('project', 'delete')).handle(() => ({ deleted: true }))
+
+    expect((await deleteRoute(request('alice', 'DELETE'))).status).toBe(200)
+    expect((await deleteRoute(request('admin', 'DELETE'))).status).toBe(200)
+    const denied = await deleteRoute(request('bob', 'DELETE'))
+    expect(denied.status).toBe(403)
+    expect((await denied.json()).error.message).toBe('Forbidden: Not allowed to delete project')
+
+    expect(await policies.can(users.bob, 'project', 'read', project)).toBe(true)
+  })
+
+  test("list permissions in route info", async () => {
+    const route = authRoute
+      .authorize(requireRole(['admin', 'owner']))
+      .authorize(requirePlan('pro'))
+      .authorize(() => true, { permission: 'beta' })
+      .handle(() => ({ ok: true }))
+
+    expect(route.getRouteInfo()).toEqual({
+      name: undefined,
+      extends: [],
+      steps: ['→ createRoute', 'parse', 'authorize', 'authorize', 'authorize', 'handle'],
+      permissions: ['role:admin|owner', 'plan:pro', 'beta'],
+    })
+  })
+
+  test("require auth with a role in the context type", () => {
+    // @ts-expect-error no `auth` to check the role of
+    createRoute().authorize(requireRole('admin'))
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, test, expect } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import { assertIfMatch, computeETag, conditionalResponse, etagFor } from "../src/server/cache"
+
+const request = (method = 'GET', headers: Record<string, string> = {}) =>
+  new Request('http://localhost/projects/1', { method, headers })
+
+const project = { id: 1, name: 'Acme' }
+
+describe("computeETag", () => {
+  test("compute strong and weak ETags", async () => {
+    const strong = await computeETag('hello')
+    expect(strong).toMatch(/^"[A-Za-z0-9+/]+"$/)
+    expect(await computeETag('hello', { weak: true })).toBe(`W/${strong}`)
+    expect(await etagFor({ id: 1 })).toBe(await computeETag('{"id":1}'))
+  })
+})
+
+describe("createRoute cache option", () => {
+  const route = createRoute({ cache: { cacheControl: 'private, max-age=60' } }).handle(() => project)
+
+  test("set ETag and Cache-Control on GET responses", async () => {
+    const response = await route(request())
+    expect(response.status).toBe(200)
+    expect(response.headers.get('ETag')).toBe(await etagFor(project))
+    expect(response.headers.get('Cache-Control')).toBe('private, max-age=60')
+    expect(await response.json()).toEqual(project)
+  })
+
+  test("respond with 304 when If-None-Match matches", async () => {
+    const etag = await etagFor(project)
+    const response = await route(request('GET', { 'If-None-Match': `"other", W/${etag}` }))
+    expect(response.status).toBe(304)
+    expect(response.headers.get('ETag')).toBe(etag)
+    expect(response.headers.get('Cache-Control')).toBe('private, max-age=60')
+    expect(response.headers.get('X-Request-Id')).toBeString()
+    expect(await response.text()).toBe('')
+
+    const modified = await route(request('GET', { 'If-None-Match': '"other"' }))
+    expect(modified.status).toBe(200)
+  })
+
+  test("use weak ETags", async () => {
+    const weakRoute = createRoute({ cache: { etag: 'weak' } }).handle(() => project)
+    const response = await weakRoute(request())
+    expect(response.headers.get('ETag')).toBe(await etagFor(project, { weak: true }))
+  })
+
+  test("respond with 304 when not modified since Last-Modified", async () => {
+    const updatedAt = new Date('2025-01-01T10:00:00.500Z')
+    const lastModifiedRoute = createRoute({ cache: { etag: false, lastModified: () => updatedAt } })
+      .handle(() => project)
+
+    const response = await lastModifiedRoute(request())
+    expect(response.headers.get('Last-Modified')).toBe('Wed, 01 Jan 2025 10:00:00 GMT')
+    expect(response.headers.get('ETag')).toBeNull()
+
+    const notModified = await lastModifiedRoute(request('GET', { 'If-Modified-Since': 'Wed, 01 Jan 2025 10:00:00 GMT' }))
+    expect(notModified.status).toBe(304)
+
+    const modified = await lastModifiedRoute(request('GET', { 'If-Modified-Since': 'Wed, 01 Jan 2025 09:59:59 GMT' }))
+    expect(modified.status).toBe(200)
+  })
+
+  test("leave mutations and errors alone", async () => {
+    const response = await route(request('POST'))
+    expect(response.headers.get('ETag')).toBeNull()
+
+    const failingRoute = createRoute({ cache: {} }).handle(() => {
+      throw new Error('boom')
+    })
+    const error = await failingRoute(request())
+    expect(error.status).toBe(500)
+    expect(error.headers.get('ETag')).toBeNull()
+  })
+
+  test("respond with 412 when If-Match doesn't match the resource", async () => {
+    let handled = 0
+    const updateRoute = createRoute({ cache: { resourceETag: () => etagFor(project) } })
+      .handle(() => {
+        handled++
+        return { ...project, name: 'Acme Inc.' }
+      })
+
+    const stale = await updateRoute(request('PUT', { 'If-Match': '"stale"' }))
+    expect(stale.status).toBe(412)
+    expect((await stale.json()).error.code).toBe('PRECONDITION_FAILED')
+    expect(handled).toBe(0)
+
+    const fresh = await updateRoute(request('PUT', { 'If-Match': await etagFor(project) }))
+    expect(fresh.status).toBe(200)
+
+    const unconditional = await updateRoute(request('PUT'))
+    expect(unconditional.status).toBe(200)
+    expect(handled).toBe(2)
+  })
+})
+
+describe("conditional request helpers", () => {
+  test("use conditionalResponse in onResponse", async () => {
+    const route = createRoute({
+      onResponse: (ctx) => conditionalResponse(ctx.request, ctx.response, { cacheControl: 'no-cache' }),
+    }).handle(() => project)
+
+    const response = await route(request('GET', { 'If-None-Match': await etagFor(project) }))
+    expect(response.status).toBe(304)
+    expect(response.headers.get('Cache-Control')).toBe('no-cache')
+  })
+
+  test("compare If-Match strongly", () => {
+    expect(() => assertIfMatch(request('PUT', { 'If-Match': '*' }), '"a"')).not.toThrow()
+    expect(() => assertIfMatch(request('PUT', { 'If-Match': '*' }), undefined)).toThrow('Precondition Failed')
+    expect(() => assertIfMatch(request('PUT', { 'If-Match': 'W/"a"' }), 'W/"a"')).toThrow('Precondition Failed')
+  })
+})
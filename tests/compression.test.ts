@@ -0,0 +1,106 @@
+import { describe, test, expect } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import { compressResponse, negotiateEncoding } from "../src/server/compression"
+import { etagFor } from "../src/server/cache"
+import { sse } from "../src/server/response"
+
+const request = (acceptEncoding?: string, method = 'GET') => new Request('http://localhost/test', {
+  method,
+  headers: acceptEncoding ? { 'Accept-Encoding': acceptEncoding } : {},
+})
+
+const decompress = (response: Response, format: string) =>
+  new Response(response.body!.pipeThrough(new DecompressionStream(format as CompressionFormat))).text()
+
+const items = Array.from({ length: 100 }, (_, id) => ({ id, name: `Item ${id}` }))
+
+describe("negotiateEncoding", () => {
+  test("pick encoding by quality and preference", () => {
+    expect(negotiateEncoding('gzip, deflate, br')).toBe('br')
+    expect(negotiateEncoding('gzip, br;q=0.5')).toBe('gzip')
+    expect(negotiateEncoding('deflate, gzip', ['gzip', 'deflate'])).toBe('gzip')
+    expect(negotiateEncoding('*', ['gzip'])).toBe('gzip')
+    expect(negotiateEncoding('gzip;q=0, identity')).toBeUndefined()
+    expect(negotiateEncoding(null)).toBeUndefined()
+  })
+})
+
+describe("createRoute compress option", () => {
+  const route = createRoute({ compress: { encodings: ['gzip', 'deflate'] } }).handle(() => items)
+
+  test("compress large bodies", async () => {
+    const response = await route(request('gzip, deflate'))
+    expect(response.headers.get('Content-Encoding')).toBe('gzip')
+    expect(response.headers.get('Vary')).toBe('Accept-Encoding')
+    expect(response.headers.get('Content-Type')).toBe('application/json')
+    expect(JSON.parse(await decompress(response, 'gzip'))).toEqual(items)
+
+    const deflated = await route(request('deflate'))
+    expect(deflated.headers.get('Content-Encoding')).toBe('deflate')
+    expect(JSON.parse(await decompress(deflated, 'deflate'))).toEqual(items)
+  })
+
+  test("send small bodies and unsupported encodings as is", async () => {
+    const smallRoute = createRoute({ compress: true }).handle(() => ({ ok: true }))
+    const small = await smallRoute(request('gzip'))
+    expect(small.headers.get('Content-Encoding')).toBeNull()
+    expect(small.headers.get('Vary')).toBe('Accept-Encoding')
+    expect(await small.json()).toEqual({ ok: true })
+
+    const identity = await route(request())
+    expect(identity.headers.get('Content-Encoding')).toBeNull()
+    expect(await identity.json()).toEqual(items)
+  })
+
+  test("derive the ETag of compressed responses and match it in conditional requests", async () => {
+    const etag = await etagFor(items)
+    const cachedRoute = createRoute({ cache: { resourceETag: () => etag }, compress: true }).handle(() => items)
+    const response = await cachedRoute(request('gzip'))
+    const compressedETag = response.headers.get('ETag')!
+    expect(compressedETag).toBe(`${etag.slice(0, -1)}-gzip"`)
+
+    const withHeaders = (method: string, headers: Record<string, string>) =>
+      new Request('http://localhost/test', { method, headers: { 'Accept-Encoding': 'gzip', ...headers } })
+    expect((await cachedRoute(withHeaders('GET', { 'If-None-Match': compressedETag }))).status).toBe(304)
+    expect((await cachedRoute(withHeaders('PUT', { 'If-Match': compressedETag }))).status).toBe(200)
+    expect((await cachedRoute(withHeaders('PUT', { 'If-Match': '"stale-gzip"' }))).status).toBe(412)
+  })
+
+  test("only compress server-sent events with the streams option", async () => {
+    const handler = () => sse(async (send) => {
+      send({ event: 'ready', data: { ok: true } })
+    }, { heartbeat: 0 })
+
+    // Events would be held back until the stream ends
+    const uncompressed = await createRoute({ compress: true }).handle(handler)(request('gzip'))
+    expect(uncompressed.headers.get('Content-Encoding')).toBeNull()
+    expect(await uncompressed.text()).toBe('event: ready\ndata: {"ok":true}\n\n')
+
+    const response = await createRoute({ compress: { encodings: ['gzip'], streams: true } }).handle(handler)(request('gzip'))
+    expect(response.headers.get('Content-Encoding')).toBe('gzip')
+    expect(await decompress(response, 'gzip')).toBe('event: ready\ndata: {"ok":true}\n\n')
+  })
+})
+
+describe("compressResponse", () => {
+  const body = 'x'.repeat(2048)
+
+  test("skip binary and already encoded responses", async () => {
+    const image = new Response(body, { headers: { 'Content-Type': 'image/png' } })
+    expect(await compressResponse(request('gzip'), image)).toBe(image)
+
+    const encoded = new Response(body, { headers: { 'Content-Type': 'text/plain', 'Content-Encoding': 'br' } })
+    expect(await compressResponse(request('gzip'), encoded)).toBe(encoded)
+
+    const noTransform = new Response(body, { headers: { 'Content-Type': 'text/plain', 'Cache-Control': 'no-transform' } })
+    expect(await compressResponse(request('gzip'), noTransform)).toBe(noTransform)
+  })
+
+  test("merge Vary and respect threshold", async () => {
+    const response = new Response(body, { headers: { 'Content-Type': 'text/plain', Vary: 'Origin' } })
+    const uncompressed = await compressResponse(request('gzip'), response, { threshold: 4096 })
+    expect(uncompressed.headers.get('Vary')).toBe('Origin, Accept-Encoding')
+    expect(uncompressed.headers.get('Content-Encoding')).toBeNull()
+    expect(await uncompressed.text()).toBe(body)
+  })
+})
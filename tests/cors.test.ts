@@ -0,0 +1,92 @@
+import { describe, test, expect } from "bun:test"
+import { cors } from "../src/server/cors"
+import { createRoute, RouteError } from "../src/server/createRoute"
+
+const preflight = (origin: string, headers: Record<string, string> = {}) => new Request('http://localhost/api', {
+  method: 'OPTIONS',
+  headers: { origin, 'access-control-request-method': 'POST', ...headers },
+})
+
+describe("cors", () => {
+  test("allow any origin by default", async () => {
+    const response = await cors()(preflight('https://app.example.com', { 'access-control-request-headers': 'content-type, x-custom' }))
+    expect(response?.status).toBe(204)
+    expect(response?.headers.get('Access-Control-Allow-Origin')).toBe('*')
+    expect(response?.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST, PUT, DELETE, OPTIONS')
+    expect(response?.headers.get('Access-Control-Allow-Headers')).toBe('content-type, x-custom')
+
+    expect(await cors()(new Request('http://localhost/api'))).toBeNull()
+  })
+
+  test("match origin against strings, RegExps, and functions", async () => {
+    const handleCors = cors({ origin: ['https://app.example.com', /\.preview\.example\.com$/] })
+    const allowed = await handleCors(preflight('https://pr-1.preview.example.com'))
+    expect(allowed?.headers.get('Access-Control-Allow-Origin')).toBe('https://pr-1.preview.example.com')
+    expect(allowed?.headers.get('Vary')).toBe('Origin, Access-Control-Request-Headers')
+
+    const denied = await handleCors(preflight('https://evil.com'))
+    expect(denied?.headers.get('Access-Control-Allow-Origin')).toBeNull()
+    expect(denied?.headers.get('Access-Control-Allow-Methods')).toBeNull()
+
+    const fromFunction = await cors({ origin: (origin) => origin.endsWith('.test') })(preflight('https://app.test'))
+    expect(fromFunction?.headers.get('Access-Control-Allow-Origin')).toBe('https://app.test')
+  })
+
+  test("echo origin with credentials and set preflight options", async () => {
+    const handleCors = cors({ origin: /\.example\.com$/, credentials: true, allowHeaders: ['Content-Type'], maxAge: 600 })
+    const response = await handleCors(preflight('https://app.example.com'))
+    expect(response?.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com')
+    expect(response?.headers.get('Access-Control-Allow-Credentials')).toBe('true')
+    expect(response?.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type')
+    expect(response?.headers.get('Access-Control-Max-Age')).toBe('600')
+    expect(response?.headers.get('Vary')).toBe('Origin')
+  })
+
+  test("reject credentials with the wildcard origin", () => {
+    expect(() => cors({ credentials: true })).toThrow('CORS `credentials` requires an explicit `origin`')
+    expect(() => cors({ origin: ['https://app.example.com', '*'], credentials: true })).toThrow()
+  })
+
+  test("decorate actual responses and merge Vary", async () => {
+    const handleCors = cors({ origin: 'https://app.example.com', exposeHeaders: ['x-request-id'] })
+    const request = new Request('http://localhost/api', { headers: { origin: 'https://app.example.com' } })
+    const response = await handleCors.decorate(request, new Response('ok', { headers: { Vary: 'Accept-Encoding' } }))
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com')
+    expect(response.headers.get('Access-Control-Expose-Headers')).toBe('x-request-id')
+    expect(response.headers.get('Vary')).toBe('Accept-Encoding, Origin')
+  })
+})
+
+describe("createRoute cors option", () => {
+  const route = createRoute({ cors: { origin: 'https://app.example.com', credentials: true } })
+    .parse({ method: 'POST' })
+    .handle((ctx) => {
+      if (ctx.request.headers.get('x-fail')) {
+        throw new RouteError("Failed", { errorCode: 'FAILED', errorMessage: 'Request failed', httpStatus: 400 })
+      }
+      return { ok: true }
+    })
+
+  test("answer preflight requests before running the steps", async () => {
+    const response = await route(preflight('https://app.example.com'))
+    expect(response.status).toBe(204)
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com')
+    expect(response.headers.get('x-request-id')).toBeTruthy()
+  })
+
+  test("add CORS headers to successful and error responses", async () => {
+    const headers = { origin: 'https://app.example.com' }
+    const response = await route(new Request('http://localhost/api', { method: 'POST', headers }))
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com')
+    expect(response.headers.get('Access-Control-Allow-Credentials')).toBe('true')
+
+    const errorResponse = await route(new Request('http://localhost/api', { method: 'POST', headers: { ...headers, 'x-fail': '1' } }))
+    expect(errorResponse.status).toBe(400)
+    expect(errorResponse.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com')
+
+    const methodNotAllowed = await route(new Request('http://localhost/api', { headers }))
+    expect(methodNotAllowed.status).toBe(405)
+    expect(methodNotAllowed.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com')
+  })
+})
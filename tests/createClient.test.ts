@@ -0,0 +1,107 @@
+import { describe, test, expect } from "bun:test"
+import { createClient } from "../src/client/createClient"
+import { createRoute, RouteError } from "../src/server/createRoute"
+import { createRouter } from "../src/server/createRouter"
+import { json } from "../src/server/response"
+import type { Expect, Eq } from "../src/types-helper"
+
+const getUser = createRoute()
+  .parse({
+    method: 'GET',
+    path: '/api/users/[id]' as const,
+    query: (ctx) => ({ include: ctx.query.include?.split(',') ?? [] }),
+  })
+  .handle((ctx) => {
+    if (ctx.parsed.path.params.id === 'missing') {
+      throw new RouteError('Not found', { errorCode: 'RESOURCE_NOT_FOUND', errorMessage: 'User not found', httpStatus: 404 })
+    }
+    return { id: ctx.parsed.path.params.id, include: ctx.parsed.query.include }
+  })
+
+const createUser = createRoute()
+  .parse({
+    method: 'POST',
+    path: '/api/users' as const,
+    body: (ctx) => ctx.body as { name: string },
+  })
+  .handle((ctx) => ({ id: 'new', name: ctx.parsed.body.name, auth: ctx.request.headers.get('authorization') }))
+
+const health = createRoute()
+  .parse({ method: 'GET', path: '/health' as const })
+  .handle(() => json({ ok: true }))
+
+const routes = { getUser, createUser, health }
+const router = createRouter(Object.values(routes))
+
+const client = createClient<typeof routes>({
+  baseUrl: 'http://localhost',
+  fetch: (input, init) => router.fetch(new Request(input, init)),
+  headers: () => ({ authorization: 'Bearer token' }),
+})
+
+describe("createClient", () => {
+  test("send typed GET request with query", async () => {
+    const result = await client.get('/api/users/123', { query: { include: ['profile', 'teams'] } })
+    type TestData = Expect<Eq<typeof result.data, { id: string, include: string[] } | null>>
+    expect(result).toEqual({ data: { id: '123', include: ['profile', 'teams'] }, error: null })
+  })
+
+  test("send typed POST request with JSON body and default headers", async () => {
+    const result = await client.post('/api/users', { body: { name: 'John' } })
+    expect(result).toEqual({ data: { id: 'new', name: 'John', auth: 'Bearer token' }, error: null })
+  })
+
+  test("return unknown data for routes returning a Response", async () => {
+    const result = await client.get('/health')
+    type TestData = Expect<Eq<typeof result.data, unknown>>
+    expect(result.data).toEqual({ ok: true })
+  })
+
+  test("return error info for non-2xx responses", async () => {
+    const result = await client.get('/api/users/missing', { query: { include: [] } })
+    expect(result.data).toBeNull()
+    expect(result.error).toMatchObject({
+      code: 'RESOURCE_NOT_FOUND',
+      message: 'Not found: User not found',
+      httpStatus: 404,
+    })
+  })
+
+  test("return network errors instead of throwing", async () => {
+    const failingClient = createClient<typeof routes>({
+      baseUrl: 'http://localhost',
+      fetch: async () => { throw new Error('Connection refused') },
+    })
+    const result = await failingClient.get('/health')
+    expect(result.error).toEqual({ message: 'Connection refused', code: 'NETWORK_ERROR' })
+  })
+
+  test("reject paths and methods that don't exist in routes", () => {
+    // @ts-expect-error - no POST route for this path
+    const invalidMethod = () => client.post('/api/users/123')
+    // @ts-expect-error - body is required
+    const missingBody = () => client.post('/api/users')
+    // @ts-expect-error - unknown path
+    const unknownPath = () => client.get('/api/unknown')
+    expect(invalidMethod).toBeDefined()
+    expect(missingBody).toBeDefined()
+    expect(unknownPath).toBeDefined()
+  })
+
+  test("type error codes declared with errors()", async () => {
+    const deleteUser = createRoute()
+      .parse({ method: 'DELETE', path: '/api/users/[id]' as const })
+      .errors({ NOT_FOUND: 404, LAST_OWNER: 409 })
+      .handle((ctx) => ctx.fail('LAST_OWNER', { teamId: 'team_1' }))
+    const typedRoutes = [deleteUser] as const
+    const typedRouter = createRouter([...typedRoutes])
+    const typedClient = createClient<typeof typedRoutes>({
+      baseUrl: 'http://localhost',
+      fetch: (input, init) => typedRouter.fetch(new Request(input, init)),
+    })
+
+    const result = await typedClient.delete('/api/users/123')
+    type TestCode = Expect<Eq<Extract<NonNullable<typeof result.error>['code'], 'NOT_FOUND' | 'LAST_OWNER' | 'NETWORK_ERROR'>, 'NOT_FOUND' | 'LAST_OWNER' | 'NETWORK_ERROR'>>
+    expect(result.error).toMatchObject({ code: 'LAST_OWNER', httpStatus: 409, details: { teamId: 'team_1' } })
+  })
+})
@@ -1,5 +1,7 @@
 import { describe, test, expect } from "bun:test"
-import { createRoute, RouteError } from "../src/server/createRoute"
+import { z } from "zod"
+import { type } from "arktype"
+import { createRoute, RouteError, type Middleware, type Next, type RouteExecution } from "../src/server/createRoute"
 import { throwOnError } from "../src/shared/throwOnError"
 import type { Expect, Eq } from "../src/types-helper"
 
@@ -144,7 +146,7 @@ describe("Stage 1: Foundation Types & RouteError", () => {
       // This test verifies TypeScript compilation
       const route = createRoute().handle(async (ctx) => {
         // ctx is properly typed as empty object
-        expect(ctx).toEqual({ request: invokeMockRequest })
+        expect(ctx).toEqual({ request: invokeMockRequest, requestId: expect.any(String) })
         return { success: true, timestamp: Date.now() }
       })
 
@@ -269,7 +271,7 @@ describe("Stage 2: Basic Builder Pattern", () => {
       throwOnError(result)
       
       expect(typeof result.timestamp).toBe('number')
-      expect(result.ctx).toEqual({ request: invokeMockRequest })
+      expect(result.ctx).toEqual({ request: invokeMockRequest, requestId: expect.any(String) })
     })
 
     test("invoke with context override", async () => {
@@ -281,7 +283,7 @@ describe("Stage 2: Basic Builder Pattern", () => {
       const result = await route.invoke({})
       throwOnError(result)
 
-      expect(result.ctx).toEqual({ request: invokeMockRequest })
+      expect(result.ctx).toEqual({ request: invokeMockRequest, requestId: expect.any(String) })
     })
 
     test("invoke wraps non-RouteError errors", async () => {
@@ -658,12 +660,12 @@ describe.skip("Stage 4: Prepare Method", () => {
       const route = createRoute()
         .prepare(async (ctx) => {
           expect(ctx.request instanceof Request).toBe(true)
-          expect(ctx).toEqual({ request: mockRequest })
+          expect(ctx).toEqual({ request: mockRequest, requestId: expect.any(String) })
           return { role: "admin", userId: "123" }
         })
         .handle(async (ctx) => {
           // Context should be built from prepare step
-          expect(ctx).toEqual({ request: mockRequest, role: "admin", userId: "123" })
+          expect(ctx).toEqual({ request: mockRequest, requestId: expect.any(String), role: "admin", userId: "123" })
           return { success: true }
         })
 
@@ -675,16 +677,17 @@ describe.skip("Stage 4: Prepare Method", () => {
     test("execute multiple prepare steps and merge context", async () => {
       const route = createRoute()
         .prepare(async (ctx) => {
-          expect(ctx).toEqual({ request: mockRequest })
+          expect(ctx).toEqual({ request: mockRequest, requestId: expect.any(String) })
           return { role: "admin" }
         })
         .prepare(async (ctx) => {
-          expect(ctx).toEqual({ request: mockRequest, role: "admin" })
+          expect(ctx).toEqual({ request: mockRequest, requestId: expect.any(String), role: "admin" })
           return { userId: "123", permissions: ["read", "write"] }
         })
         .prepare(async (ctx) => {
           expect(ctx).toEqual({
             request: mockRequest,
+            requestId: expect.any(String),
             role: "admin",
             userId: "123",
             permissions: ["read", "write"],
@@ -694,6 +697,7 @@ describe.skip("Stage 4: Prepare Method", () => {
         .handle(async (ctx) => {
           expect(ctx).toEqual({
             request: mockRequest,
+            requestId: expect.any(String),
             role: "admin",
             userId: "123",
             permissions: ["read", "write"],
@@ -720,7 +724,7 @@ describe.skip("Stage 4: Prepare Method", () => {
           return { userId: "123" }
         })
         .handle(async (ctx) => {
-          expect(ctx).toEqual({ request: mockRequest, role: "admin", userId: "123" })
+          expect(ctx).toEqual({ request: mockRequest, requestId: expect.any(String), role: "admin", userId: "123" })
           return { success: true }
         })
 
@@ -2818,3 +2822,504 @@ describe('getRouteInfo', () => {
     })
   })
 })
+
+describe('Request ID', () => {
+  test('generate request ID and expose it in every step', async () => {
+    const seen: string[] = []
+    const route = createRoute({ generateRequestId: () => 'test-123-custom' })
+      .prepare((ctx) => {
+        seen.push(ctx.requestId)
+        return { role: 'admin' }
+      })
+      .parse({
+        body: (ctx) => {
+          seen.push(ctx.requestId)
+          return { parsed: true }
+        }
+      })
+      .handle((ctx) => {
+        seen.push(ctx.requestId)
+        return { requestId: ctx.requestId }
+      })
+
+    const response = await route(new Request('http://localhost/test', { method: 'POST' }))
+    expect(seen).toEqual(['test-123-custom', 'test-123-custom', 'test-123-custom'])
+    expect(response.headers.get('x-request-id')).toBe('test-123-custom')
+    expect(await response.json()).toEqual({ requestId: 'test-123-custom' })
+
+    const result = await route.invoke()
+    expect(result).toEqual({ requestId: 'test-123-custom' })
+  })
+
+  test('honour incoming x-request-id and traceparent headers', async () => {
+    const route = createRoute().handle((ctx) => ({ requestId: ctx.requestId }))
+
+    const response = await route(new Request('http://localhost/test', { headers: { 'x-request-id': 'incoming-id' } }))
+    expect(response.headers.get('x-request-id')).toBe('incoming-id')
+
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736'
+    const traced = await route(new Request('http://localhost/test', {
+      headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` }
+    }))
+    expect(await traced.json()).toEqual({ requestId: traceId })
+
+    const customHeaderRoute = createRoute({ requestIdHeader: 'x-correlation-id' }).handle(() => ({}))
+    const customResponse = await customHeaderRoute(new Request('http://localhost/test', { headers: { 'x-correlation-id': 'abc' } }))
+    expect(customResponse.headers.get('x-correlation-id')).toBe('abc')
+  })
+
+  test('include request ID in error payload and default error body', async () => {
+    let errorRequestId: string | undefined
+    const route = createRoute({
+      onError: (ctx) => { errorRequestId = ctx.requestId }
+    }).handle(() => {
+      throw new RouteError('Not found', { errorCode: 'NOT_FOUND', errorMessage: 'User not found', httpStatus: 404 })
+    })
+
+    const response = await route(new Request('http://localhost/test', { headers: { 'x-request-id': 'req-1' } }))
+    expect(errorRequestId).toBe('req-1')
+    expect(response.status).toBe(404)
+    expect(response.headers.get('x-request-id')).toBe('req-1')
+    expect(await response.json()).toEqual({
+      error: { message: 'Not found: User not found', code: 'NOT_FOUND', requestId: 'req-1' }
+    })
+  })
+})
+
+describe('Body parsing by content type', () => {
+  const echoBody = (opts?: { maxBodySize?: number }) => createRoute(opts)
+    .parse({ body: (ctx) => ctx.body })
+    .handle((ctx) => ctx.parsed.body)
+
+  test('parse urlencoded body with repeated keys as arrays', async () => {
+    const response = await echoBody()(new Request('http://localhost/form', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'name=john&tag=a&tag=b',
+    }))
+    expect(await response.json()).toEqual({ name: 'john', tag: ['a', 'b'] })
+  })
+
+  test('parse multipart body into fields and files', async () => {
+    const formData = new FormData()
+    formData.append('title', 'avatar')
+    formData.append('file', new File(['hello'], 'hello.txt', { type: 'text/plain' }))
+
+    const route = createRoute()
+      .parse({
+        body: async (ctx) => {
+          const file = ctx.body.file as File
+          return { title: ctx.body.title, fileName: file.name, content: await file.text() }
+        }
+      })
+      .handle((ctx) => ctx.parsed.body)
+
+    const response = await route(new Request('http://localhost/upload', { method: 'POST', body: formData }))
+    expect(await response.json()).toEqual({ title: 'avatar', fileName: 'hello.txt', content: 'hello' })
+  })
+
+  test('reject unsupported content type with 415', async () => {
+    const response = await echoBody()(new Request('http://localhost/xml', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/xml' },
+      body: '<user />',
+    }))
+    expect(response.status).toBe(415)
+    expect((await response.json()).error.code).toBe('UNSUPPORTED_MEDIA_TYPE')
+  })
+
+  test('reject body larger than maxBodySize with 413', async () => {
+    const response = await echoBody({ maxBodySize: 8 })(new Request('http://localhost/json', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'a long name' }),
+    }))
+    expect(response.status).toBe(413)
+    expect((await response.json()).error.code).toBe('PAYLOAD_TOO_LARGE')
+  })
+
+  test('stop reading a chunked body once it exceeds maxBodySize', async () => {
+    let pulledChunks = 0
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulledChunks++
+        controller.enqueue(new TextEncoder().encode('{"name":"chunk"}'))
+      },
+    })
+    const response = await echoBody({ maxBodySize: 64 })(new Request('http://localhost/json', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      duplex: 'half',
+    } as RequestInit))
+    expect(response.status).toBe(413)
+    expect(pulledChunks).toBeLessThan(10)
+  })
+})
+
+describe('Standard Schema parse fields', () => {
+  const CreateUser = z.object({ name: z.string(), email: z.email() })
+  const Pagination = type({ page: 'string.integer.parse' })
+
+  const route = createRoute()
+    .parse({ body: CreateUser, query: Pagination })
+    .handle((ctx) => ({ user: ctx.parsed.body, page: ctx.parsed.query.page }))
+
+  test('validate body and query with Zod and ArkType schemas', async () => {
+    type TestBodyType = Expect<Eq<typeof route.inferRouteType.input.body, { name: string, email: string }>>
+    type TestQueryType = Expect<Eq<typeof route.inferRouteType.input.query, { page: number }>>
+
+    const response = await route(new Request('http://localhost/users?page=2', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'John', email: 'john@example.com' }),
+    }))
+    expect(await response.json()).toEqual({ user: { name: 'John', email: 'john@example.com' }, page: 2 })
+  })
+
+  test('return 422 with per-field details on validation error', async () => {
+    const response = await route(new Request('http://localhost/users?page=2', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'John', email: 'not-an-email' }),
+    }))
+    expect(response.status).toBe(422)
+    const body = await response.json()
+    expect(body.error.code).toBe('VALIDATION_ERROR')
+  })
+
+  test('throw RouteError with normalized issues', async () => {
+    let routeError: RouteError | undefined
+    const throwingRoute = createRoute({ onError: (ctx) => { routeError = ctx.error } })
+      .parse({ body: CreateUser })
+      .handle((ctx) => ctx.parsed.body)
+
+    await throwingRoute(new Request('http://localhost/users', {
+      method: 'POST',
+      body: JSON.stringify({ email: 'john@example.com' }),
+    }))
+    expect(routeError?.httpStatus).toBe(422)
+    expect(routeError?.details).toEqual([
+      { path: 'name', message: 'Invalid input: expected string, received undefined', code: 'invalid_type' },
+    ])
+  })
+})
+
+describe('Validation error details', () => {
+  test('fill details from errors thrown by Zod and ArkType in parse functions', async () => {
+    const route = createRoute()
+      .parse({
+        body: (ctx) => z.object({ name: z.string() }).parse(ctx.body),
+        query: (ctx) => type({ page: 'string.integer' }).assert(ctx.query),
+      })
+      .handle(() => ({ ok: true }))
+
+    const zodResponse = await route(new Request('http://localhost/users?page=1', { method: 'POST', body: '{}' }))
+    expect(zodResponse.status).toBe(400)
+    expect((await zodResponse.json()).error.details).toEqual([
+      { path: 'name', message: 'Invalid input: expected string, received undefined', code: 'invalid_type' },
+    ])
+
+    const arkResponse = await route(new Request('http://localhost/users?page=abc', { method: 'POST', body: '{"name":"John"}' }))
+    const arkBody = await arkResponse.json()
+    expect(arkBody.error.details).toHaveLength(1)
+    expect(arkBody.error.details[0]).toMatchObject({ path: 'page' })
+  })
+
+  test('omit details for other errors', async () => {
+    const route = createRoute()
+      .parse({ body: () => { throw new Error('Invalid body') } })
+      .handle(() => ({ ok: true }))
+
+    const response = await route(new Request('http://localhost/users', { method: 'POST', body: '{}' }))
+    expect((await response.json()).error.details).toBeUndefined()
+  })
+})
+
+describe('Middleware with use()', () => {
+  test('run code before and after downstream steps with typed context', async () => {
+    const calls: string[] = []
+    const route = createRoute()
+      .use(async (ctx, next: Next<{ startedAt: number }>) => {
+        calls.push('before')
+        const response = await next({ startedAt: 1000 })
+        calls.push('after')
+        response.headers.set('x-middleware', 'timing')
+        return response
+      })
+      .parse({
+        query: (ctx) => {
+          calls.push('parse')
+          return { startedAt: ctx.startedAt }
+        }
+      })
+      .handle((ctx) => {
+        calls.push('handle')
+        ctx.startedAt satisfies number
+        return { startedAt: ctx.startedAt }
+      })
+
+    const response = await route(new Request('http://localhost/test'))
+    expect(calls).toEqual(['before', 'parse', 'handle', 'after'])
+    expect(response.headers.get('x-middleware')).toBe('timing')
+    expect(await response.json()).toEqual({ startedAt: 1000 })
+  })
+
+  test('short-circuit and replace responses', async () => {
+    let handlerCalled = false
+    const route = createRoute()
+      .use((ctx, next) => {
+        if (ctx.request.headers.get('x-blocked')) return new Response('blocked', { status: 403 })
+        return next()
+      })
+      .use(async (ctx, next) => {
+        try {
+          return await next()
+        } catch (error) {
+          return Response.json({ recovered: (error as Error).message }, { status: 503 })
+        }
+      })
+      .handle(() => {
+        handlerCalled = true
+        throw new Error('Database unavailable')
+      })
+
+    const blocked = await route(new Request('http://localhost/test', { headers: { 'x-blocked': '1' } }))
+    expect(blocked.status).toBe(403)
+    expect(handlerCalled).toBe(false)
+
+    const recovered = await route(new Request('http://localhost/test'))
+    expect(recovered.status).toBe(503)
+    expect(await recovered.json()).toEqual({ recovered: 'Database unavailable' })
+  })
+
+  test('parse the body again when a middleware retries next()', async () => {
+    let attempts = 0
+    const route = createRoute()
+      .use(async (ctx, next) => {
+        try {
+          return await next()
+        } catch {
+          return await next()
+        }
+      })
+      .parse({ body: (ctx) => ctx.body as { name: string } })
+      .handle((ctx) => {
+        if (++attempts === 1) throw new Error('Temporary failure')
+        return { name: ctx.parsed.body.name, attempts }
+      })
+
+    const response = await route(new Request('http://localhost/test', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'retry' }),
+    }))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ name: 'retry', attempts: 2 })
+  })
+
+  test('reuse middleware across routes built with extend', async () => {
+    const withTenant: Middleware<{}, { tenant: string }> = (ctx, next) =>
+      next({ tenant: ctx.request.headers.get('x-tenant') ?? 'default' })
+
+    const baseRoute = createRoute({ name: 'baseRoute' }).use(withTenant)
+    const tenantRoute = baseRoute.extend({ name: 'tenantRoute' }).handle((ctx) => ({ tenant: ctx.tenant }))
+
+    const response = await tenantRoute(new Request('http://localhost/test', { headers: { 'x-tenant': 'acme' } }))
+    expect(await response.json()).toEqual({ tenant: 'acme' })
+    expect(tenantRoute.getRouteInfo().steps).toEqual(['→ createRoute', 'use', '→ tenantRoute', 'handle'])
+
+    const result = await tenantRoute.invoke()
+    expect(result).toEqual({ tenant: 'default' })
+  })
+
+  test('return response replaced by middleware in invoke', async () => {
+    const route = createRoute()
+      .use(() => Response.json({ cached: true }))
+      .handle(() => ({ cached: false }))
+
+    expect(await route.invoke()).toEqual({ cached: true })
+  })
+
+  test('fail when middleware neither returns a response nor calls next', async () => {
+    const route = createRoute()
+      .use(() => {})
+      .handle(() => ({ ok: true }))
+
+    const response = await route(new Request('http://localhost/test'))
+    expect(response.status).toBe(500)
+    expect((await response.json()).error.code).toBe('MIDDLEWARE_ERROR')
+  })
+})
+
+describe('Execution record', () => {
+  test('keep step statuses per request when requests run concurrently', async () => {
+    const errorSteps: string[][] = []
+    const route = createRoute({
+      name: 'slowRoute',
+      onError: (ctx) => {
+        errorSteps.push(ctx.error.routeInfo!.steps)
+        expect(ctx.execution.error).toBe(ctx.error)
+      },
+    })
+      .parse({
+        query: async (ctx) => {
+          await new Promise(resolve => setTimeout(resolve, Number(ctx.query.delay)))
+          if (ctx.query.fail) throw new Error('Invalid query')
+          return ctx.query
+        }
+      })
+      .handle(() => ({ ok: true }))
+
+    const [failed, succeeded] = await Promise.all([
+      route(new Request('http://localhost/test?delay=20&fail=1')),
+      route(new Request('http://localhost/test?delay=0')),
+    ])
+    expect(failed.status).toBe(400)
+    expect(succeeded.status).toBe(200)
+    expect(errorSteps).toEqual([['→ createRoute', 'parse (error)', 'handle']])
+    expect(route.getRouteInfo().steps).toEqual(['→ createRoute', 'parse', 'handle'])
+  })
+
+  test('expose step timings and request format to onResponse', async () => {
+    let execution: RouteExecution | undefined
+    const route = createRoute({ onResponse: (ctx) => { execution = ctx.execution } })
+      .prepare(() => ({ startedAt: 1 }))
+      .handle(() => ({ ok: true }))
+
+    await route(new Request('http://localhost/test'))
+    expect(execution?.requestFormat).toBe('POSITIONAL_ARGS')
+    expect(execution?.steps).toEqual({
+      0: { status: 'ok', durationMs: expect.any(Number) },
+      1: { status: 'ok', durationMs: expect.any(Number) },
+    })
+    expect(route.getRouteInfo(execution).steps).toEqual(['→ createRoute', 'prepare (ok)', 'handle (ok)'])
+  })
+
+  test('respond with 500 for errors thrown by the handler', async () => {
+    const route = createRoute().handle(() => {
+      throw new Error('Database unavailable')
+    })
+
+    const response = await route(new Request('http://localhost/test'))
+    expect(response.status).toBe(500)
+    const body = await response.json()
+    expect(body.error.code).toBe('HANDLER_ERROR')
+    expect(body.error.message).toBe('Internal Server Error: Database unavailable')
+  })
+})
+
+describe('Response schemas with returns()', () => {
+  const User = z.object({ id: z.string(), name: z.string() })
+  const NotFound = z.object({ message: z.string() })
+
+  const getUser = createRoute()
+    .parse({ path: '/api/users/[id]' as const })
+    .returns({ 200: User, 404: NotFound })
+    .handle((ctx) => {
+      const { id } = ctx.parsed.path.params
+      if (id === 'missing') return { status: 404, body: { message: 'User not found' } }
+      if (id === 'invalid') return { id, name: 123 } as unknown as z.infer<typeof User>
+      return { id, name: 'Alice' }
+    })
+
+  test('send status responses and plain 200 bodies', async () => {
+    const found = await getUser(new Request('http://localhost/api/users/123'))
+    expect(found.status).toBe(200)
+    expect(await found.json()).toEqual({ id: '123', name: 'Alice' })
+
+    const missing = await getUser(new Request('http://localhost/api/users/missing'))
+    expect(missing.status).toBe(404)
+    expect(missing.headers.get('Content-Type')).toBe('application/json')
+    expect(await missing.json()).toEqual({ message: 'User not found' })
+  })
+
+  test('fail with 500 when the body does not match the schema', async () => {
+    const response = await getUser(new Request('http://localhost/api/users/invalid'))
+    expect(response.status).toBe(500)
+    const body = await response.json()
+    expect(body.error.code).toBe('RESPONSE_VALIDATION_ERROR')
+    expect(body.error.details).toEqual([{ path: 'name', message: expect.any(String), code: 'invalid_type' }])
+
+    const unvalidated = createRoute({ validateResponses: false })
+      .returns({ 200: User })
+      .handle(() => ({ id: '1', name: 123 }) as unknown as z.infer<typeof User>)
+    expect((await unvalidated(new Request('http://localhost/test'))).status).toBe(200)
+  })
+
+  test('infer response types per status', () => {
+    type RouteType = typeof getUser.inferRouteType
+    type _ReturnValue = Expect<Eq<RouteType['returnValue'], { id: string, name: string }>>
+    type _Responses = Expect<Eq<NonNullable<RouteType['responses']>, { 200: { id: string, name: string }, 404: { message: string } }>>
+
+    createRoute()
+      .returns({ 200: User, 404: NotFound })
+      // @ts-expect-error status 500 is not declared
+      .handle(() => ({ status: 500, body: { message: 'Oops' } }))
+  })
+
+  test('keep plain objects with a status field when the status is not declared', async () => {
+    const route = createRoute()
+      .returns({ 200: z.object({ status: z.string(), body: z.string() }) })
+      .handle(() => ({ status: 'active', body: 'text' }))
+
+    const response = await route(new Request('http://localhost/test'))
+    expect(await response.json()).toEqual({ status: 'active', body: 'text' })
+  })
+})
+
+describe('Typed errors with errors()', () => {
+  const createProject = createRoute({ name: 'createProject' })
+    .errors({ NOT_FOUND: 404, PLAN_LIMIT: 402 })
+    .parse({
+      query: (ctx) => {
+        if (!ctx.query.team) ctx.fail('NOT_FOUND', undefined, 'Team not found')
+        return { team: ctx.query.team }
+      }
+    })
+    .handle((ctx) => {
+      if (ctx.parsed.query.team === 'free') ctx.fail('PLAN_LIMIT', { limit: 3 })
+      return { created: true }
+    })
+
+  test('fail with the declared status and details', async () => {
+    const limited = await createProject(new Request('http://localhost/test?team=free'))
+    expect(limited.status).toBe(402)
+    expect(await limited.json()).toEqual({
+      error: {
+        message: 'Request failed: PLAN_LIMIT',
+        code: 'PLAN_LIMIT',
+        requestId: expect.any(String),
+        details: { limit: 3 },
+      }
+    })
+
+    const notFound = await createProject(new Request('http://localhost/test'))
+    expect(notFound.status).toBe(404)
+    expect((await notFound.json()).error).toMatchObject({ code: 'NOT_FOUND', message: 'Request failed: Team not found' })
+
+    await expect(createProject.invoke()).rejects.toMatchObject({ errorCode: 'NOT_FOUND', httpStatus: 404 })
+  })
+
+  test('expose declared error codes in inferRouteType', () => {
+    type ErrorCode = NonNullable<typeof createProject.inferRouteType['errorCode']>
+    type _Declared = Expect<Eq<Extract<ErrorCode, 'NOT_FOUND' | 'PLAN_LIMIT'>, 'NOT_FOUND' | 'PLAN_LIMIT'>>
+    type _BuiltIn = Expect<Eq<Extract<ErrorCode, 'PARSE_ERROR'>, 'PARSE_ERROR'>>
+    type _Helpers = Expect<Eq<Extract<ErrorCode, 'RATE_LIMITED' | 'METHOD_NOT_ALLOWED'>, 'RATE_LIMITED' | 'METHOD_NOT_ALLOWED'>>
+
+    createRoute()
+      .errors({ NOT_FOUND: 404 })
+      // @ts-expect-error code is not declared
+      .handle((ctx) => ctx.fail('PLAN_LIMIT'))
+  })
+
+  test('merge error codes declared in several steps', async () => {
+    const baseRoute = createRoute({ name: 'baseRoute' }).errors({ UNAUTHORIZED: 401 })
+    const route = baseRoute.extend({ name: 'getInvoice' })
+      .errors({ NOT_FOUND: 404 })
+      .handle((ctx) => ctx.fail('UNAUTHORIZED'))
+
+    expect(route.getRouteDefinition().errors).toEqual({ UNAUTHORIZED: 401, NOT_FOUND: 404 })
+    expect((await route(new Request('http://localhost/test'))).status).toBe(401)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, test, expect } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import { createRouter } from "../src/server/createRouter"
+
+const getUser = createRoute({ name: 'getUser' })
+  .parse({ method: 'GET', path: '/api/users/[id]' as const })
+  .handle((ctx) => ({ route: 'getUser', id: ctx.parsed.path.params.id }))
+
+const updateUser = createRoute({ name: 'updateUser' })
+  .parse({ method: ['PUT', 'PATCH'], path: '/api/users/[id]' as const })
+  .handle((ctx) => ({ route: 'updateUser', id: ctx.parsed.path.params.id }))
+
+const getMe = createRoute({ name: 'getMe' })
+  .parse({ method: 'GET', path: '/api/users/me' })
+  .handle(() => ({ route: 'getMe' }))
+
+const health = createRoute({ name: 'health' })
+  .parse({ path: '/health' })
+  .handle((ctx) => ({ route: 'health', method: ctx.request.method }))
+
+describe("createRouter", () => {
+  const router = createRouter([getUser, updateUser, getMe, health])
+
+  test("dispatch request to the handler matching path and method", async () => {
+    const response = await router.fetch(new Request('http://localhost/api/users/123'))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ route: 'getUser', id: '123' })
+
+    const patchResponse = await router.fetch(new Request('http://localhost/api/users/123', { method: 'PATCH' }))
+    expect(await patchResponse.json()).toEqual({ route: 'updateUser', id: '123' })
+  })
+
+  test("match static segments before param segments", async () => {
+    const response = await router.fetch(new Request('http://localhost/api/users/me'))
+    expect(await response.json()).toEqual({ route: 'getMe' })
+    expect(router.routes.map(route => route.path)).toEqual(['/api/users/me', '/api/users/[id]', '/health'])
+  })
+
+  test("route without method accepts any method", async () => {
+    const response = await router.fetch(new Request('http://localhost/health', { method: 'DELETE' }))
+    expect(await response.json()).toEqual({ route: 'health', method: 'DELETE' })
+  })
+
+  test("return 405 with Allow header when method doesn't match", async () => {
+    const response = await router.fetch(new Request('http://localhost/api/users/me', { method: 'POST' }))
+    expect(response.status).toBe(405)
+    expect(response.headers.get('Allow')).toBe('GET, HEAD, PUT, PATCH')
+    const body = await response.json()
+    expect(body.error.code).toBe('METHOD_NOT_ALLOWED')
+  })
+
+  test("answer HEAD with the GET route without the body", async () => {
+    const response = await router.fetch(new Request('http://localhost/api/users/123', { method: 'HEAD' }))
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('application/json')
+    expect(await response.text()).toBe('')
+  })
+
+  test("return 404 when no route matches", async () => {
+    const response = await router.fetch(new Request('http://localhost/api/unknown'))
+    expect(response.status).toBe(404)
+    expect((await response.json()).error.code).toBe('RESOURCE_NOT_FOUND')
+
+    const customRouter = createRouter([health], { onNotFound: () => new Response('nope', { status: 404 }) })
+    const customResponse = await customRouter.fetch(new Request('http://localhost/api/unknown'))
+    expect(await customResponse.text()).toBe('nope')
+  })
+
+  test("throw on routes without path or with duplicate method", () => {
+    const noPath = createRoute().parse({ method: 'GET' }).handle(() => ({}))
+    expect(() => createRouter([noPath])).toThrow("has no `path`")
+    expect(() => createRouter([getUser, getUser])).toThrow("Duplicate route: GET /api/users/[id]")
+  })
+
+  test("send CORS preflight requests to the route of the requested method", async () => {
+    const createUser = createRoute({ cors: { origin: 'https://app.example.com' } })
+      .parse({ method: 'POST', path: '/api/users' })
+      .handle(() => ({ route: 'createUser' }))
+    const corsRouter = createRouter([createUser, health])
+
+    const preflight = await corsRouter.fetch(new Request('http://localhost/api/users', {
+      method: 'OPTIONS',
+      headers: { origin: 'https://app.example.com', 'access-control-request-method': 'POST' },
+    }))
+    expect(preflight.status).toBe(204)
+    expect(preflight.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com')
+
+    // Routes without the `cors` option don't answer preflight requests
+    const noCors = await router.fetch(new Request('http://localhost/api/users/me', {
+      method: 'OPTIONS',
+      headers: { origin: 'https://app.example.com', 'access-control-request-method': 'GET' },
+    }))
+    expect(noCors.status).toBe(405)
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, test, expect } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import { idempotency } from "../src/server/idempotency"
+
+const request = (headers: Record<string, string> = {}) =>
+  new Request('http://localhost/charges', { method: 'POST', headers })
+
+describe("idempotency", () => {
+  test("replay the first response for retries with the same key", async () => {
+    let charges = 0
+    const route = createRoute()
+      .use(idempotency())
+      .handle(() => ({ chargeId: ++charges }))
+
+    const first = await route(request({ 'Idempotency-Key': 'abc' }))
+    expect(first.status).toBe(200)
+    expect(await first.json()).toEqual({ chargeId: 1 })
+
+    const retry = await route(request({ 'Idempotency-Key': 'abc' }))
+    expect(retry.status).toBe(200)
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true')
+    expect(retry.headers.get('Content-Type')).toBe('application/json')
+    expect(await retry.json()).toEqual({ chargeId: 1 })
+
+    const other = await route(request({ 'Idempotency-Key': 'def' }))
+    expect(await other.json()).toEqual({ chargeId: 2 })
+
+    // Requests without a key aren't deduplicated
+    await route(request())
+    expect(charges).toBe(3)
+  })
+
+  test("replay binary bodies and skip streamed responses", async () => {
+    const binary = createRoute()
+      .use(idempotency())
+      .handle(() => new Response(new Uint8Array([255, 0, 128]), { headers: { 'Content-Type': 'application/octet-stream' } }))
+    await binary(request({ 'Idempotency-Key': 'abc' }))
+    const retry = await binary(request({ 'Idempotency-Key': 'abc' }))
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true')
+    expect([...new Uint8Array(await retry.arrayBuffer())]).toEqual([255, 0, 128])
+
+    let streams = 0
+    const streamed = createRoute()
+      .use(idempotency())
+      .handle(() => new Response(`data: ${++streams}\n\n`, { headers: { 'Content-Type': 'text/event-stream' } }))
+    await streamed(request({ 'Idempotency-Key': 'abc' }))
+    const streamedRetry = await streamed(request({ 'Idempotency-Key': 'abc' }))
+    expect(streamedRetry.headers.get('Idempotent-Replayed')).toBeNull()
+    expect(await streamedRetry.text()).toBe('data: 2\n\n')
+  })
+
+  test("scope keys per user", async () => {
+    const route = createRoute()
+      .parse({ auth: (ctx) => ({ userId: ctx.authHeader }) })
+      .use(idempotency())
+      .handle((ctx) => ({ userId: ctx.parsed.auth.userId, at: Math.random() }))
+
+    const alice = await (await route(request({ 'Idempotency-Key': 'abc', Authorization: 'alice' }))).json()
+    const bob = await (await route(request({ 'Idempotency-Key': 'abc', Authorization: 'bob' }))).json()
+    expect(bob.userId).toBe('bob')
+    expect(bob.at).not.toBe(alice.at)
+  })
+
+  test("respond with 409 while the first request is in flight", async () => {
+    let resolve!: () => void
+    const inFlight = new Promise<void>(r => { resolve = r })
+    const route = createRoute()
+      .use(idempotency())
+      .handle(async () => {
+        await inFlight
+        return { ok: true }
+      })
+
+    const first = route(request({ 'Idempotency-Key': 'abc' }))
+    const duplicate = await route(request({ 'Idempotency-Key': 'abc' }))
+    expect(duplicate.status).toBe(409)
+    expect((await duplicate.json()).error.code).toBe('IDEMPOTENCY_CONFLICT')
+
+    resolve()
+    expect((await first).status).toBe(200)
+  })
+
+  test("allow retrying failed requests", async () => {
+    let attempts = 0
+    const route = createRoute()
+      .use(idempotency())
+      .handle(() => {
+        if (++attempts === 1) throw new Error('Card declined')
+        return { ok: true }
+      })
+
+    expect((await route(request({ 'Idempotency-Key': 'abc' }))).status).toBe(500)
+    const retry = await route(request({ 'Idempotency-Key': 'abc' }))
+    expect(retry.status).toBe(200)
+    expect(retry.headers.get('Idempotent-Replayed')).toBeNull()
+  })
+
+  test("require the key when configured", async () => {
+    const route = createRoute()
+      .use(idempotency({ required: true }))
+      .handle(() => ({ ok: true }))
+
+    const response = await route(request())
+    expect(response.status).toBe(400)
+    expect((await response.json()).error.code).toBe('IDEMPOTENCY_KEY_REQUIRED')
+  })
+})
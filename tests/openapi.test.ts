@@ -0,0 +1,184 @@
+import { describe, test, expect } from "bun:test"
+import { z } from "zod"
+import { type } from "arktype"
+import { createRoute } from "../src/server/createRoute"
+import { generateOpenAPI } from "../src/server/openapi"
+import { apiKey, bearerJwt, sessionCookie } from "../src/server/auth"
+import { requireRole } from "../src/server/authorize"
+import { resolveTenant } from "../src/server/tenant"
+import { verifyWebhook } from "../src/server/webhook"
+
+const UserQuery = z.object({ include: z.string().optional(), page: z.number() })
+const CreateUserBody = type({ name: 'string', email: 'string' })
+
+const getUser = createRoute({ name: 'getUser' })
+  .parse({
+    method: 'GET',
+    path: '/api/users/[id]',
+    query: (ctx) => UserQuery.parse(ctx.query),
+    schema: { query: UserQuery },
+  })
+  .handle(() => ({}))
+
+const createUser = createRoute({ name: 'createUser' })
+  .parse({
+    auth: (ctx) => ({ token: ctx.authHeader }),
+  })
+  .parse({
+    method: 'POST',
+    path: '/api/users',
+    body: (ctx) => CreateUserBody.assert(ctx.body),
+    schema: { body: CreateUserBody },
+  })
+  .handle(() => ({}))
+
+const health = createRoute().parse({ path: '/health' }).handle(() => ({ ok: true }))
+
+describe("generateOpenAPI", () => {
+  const doc = generateOpenAPI([getUser, createUser, health], { title: 'Test API', version: '1.0.0' })
+
+  test("generate document with info and paths", () => {
+    expect(doc.openapi).toBe('3.1.0')
+    expect(doc.info).toEqual({ title: 'Test API', version: '1.0.0' })
+    expect(Object.keys(doc.paths)).toEqual(['/api/users/{id}', '/api/users', '/health'])
+    expect(Object.keys(doc.paths['/health'])).toEqual(['get'])
+  })
+
+  test("document path and query params", () => {
+    const operation = doc.paths['/api/users/{id}'].get
+    expect(operation.operationId).toBe('getUser')
+    expect(operation.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'include', in: 'query', required: false, schema: { type: 'string' } },
+      { name: 'page', in: 'query', required: true, schema: { type: 'number' } },
+    ])
+    expect(Object.keys(operation.responses)).toEqual(['200', '400', '404', '405', '500'])
+  })
+
+  test("document typed, optional, and catch-all path params", () => {
+    const getFile = createRoute().parse({ path: '/api/orgs/[orgId:uuid]/files/[version:int]/[...path]' }).handle(() => ({}))
+    const { paths } = generateOpenAPI([getFile], { title: 'Test API', version: '1.0.0' })
+    expect(paths['/api/orgs/{orgId}/files/{version}/{path}'].get.parameters).toEqual([
+      { name: 'orgId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+      { name: 'version', in: 'path', required: true, schema: { type: 'integer' } },
+      { name: 'path', in: 'path', required: true, schema: { type: 'string', description: 'One or more path segments' } },
+    ])
+  })
+
+  test("document request body and auth requirement", () => {
+    const operation = doc.paths['/api/users'].post
+    expect(operation.requestBody?.content['application/json'].schema).toEqual({
+      type: 'object',
+      properties: { email: { type: 'string' }, name: { type: 'string' } },
+      required: ['email', 'name'],
+    })
+    expect(operation.security).toEqual([{ bearerAuth: [] }])
+    expect(doc.components.securitySchemes.bearerAuth).toEqual({ type: 'http', scheme: 'bearer' })
+    expect(operation.responses['401'].content?.['application/json'].schema).toEqual({ $ref: '#/components/schemas/ErrorResponse' })
+    expect(Object.keys(operation.responses)).toEqual(['200', '400', '401', '404', '405', '413', '415', '500'])
+  })
+
+  test("document the security scheme of auth adapters", () => {
+    const lookup = () => null
+    const routes = [
+      createRoute({ name: 'jwt' }).parse({ path: '/jwt', auth: bearerJwt({ secret: 'secret' }) }).handle(() => ({})),
+      createRoute({ name: 'key' }).parse({ path: '/key', auth: apiKey({ lookup }) }).handle(() => ({})),
+      createRoute({ name: 'session' }).parse({ path: '/session', auth: sessionCookie({ name: 'sid', verify: lookup }) }).handle(() => ({})),
+    ]
+    const { paths, components } = generateOpenAPI(routes, { title: 'Test API', version: '1.0.0' })
+    expect(paths['/jwt'].get.security).toEqual([{ bearerAuth: [] }])
+    expect(paths['/key'].get.security).toEqual([{ apiKeyAuth: [] }, { bearerAuth2: [] }])
+    expect(paths['/session'].get.security).toEqual([{ cookieAuth: [] }])
+    expect(components.securitySchemes).toEqual({
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      apiKeyAuth: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+      bearerAuth2: { type: 'http', scheme: 'bearer' },
+      cookieAuth: { type: 'apiKey', in: 'cookie', name: 'sid' },
+    })
+  })
+
+  test("document schemas passed directly as parse fields", () => {
+    const updateUser = createRoute()
+      .parse({ method: 'PUT', path: '/api/users/[id]', body: CreateUserBody })
+      .handle(() => ({}))
+    const { paths } = generateOpenAPI([updateUser], { title: 'Test API', version: '1.0.0' })
+    expect(paths['/api/users/{id}'].put.requestBody?.content['application/json'].schema).toMatchObject({
+      required: ['email', 'name'],
+    })
+    expect(paths['/api/users/{id}'].put.responses['422']).toEqual({
+      description: 'Validation failed',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+    })
+  })
+
+  test("document response schemas declared with returns()", () => {
+    const NotFound = z.object({ message: z.string() })
+    const getPost = createRoute()
+      .parse({ method: 'GET', path: '/api/posts/[id]' })
+      .returns({ 200: z.object({ id: z.string(), title: z.string() }), 404: NotFound })
+      .handle(() => ({ id: '1', title: 'Hello' }))
+
+    const { paths } = generateOpenAPI([getPost], { title: 'Test API', version: '1.0.0' })
+    const { responses } = paths['/api/posts/{id}'].get
+    expect(Object.keys(responses)).toEqual(['200', '404', '405', '500'])
+    expect(responses['200'].content?.['application/json'].schema).toMatchObject({
+      type: 'object',
+      required: ['id', 'title'],
+    })
+    expect(responses['404'].content?.['application/json'].schema).toMatchObject({
+      properties: { message: { type: 'string' } },
+    })
+  })
+
+  test("document error codes declared with errors()", () => {
+    const createProject = createRoute()
+      .parse({ method: 'POST', path: '/api/projects', auth: () => ({ userId: '1' }) })
+      .errors({ PLAN_LIMIT: 402, SESSION_EXPIRED: 401 })
+      .handle(() => ({}))
+
+    const { paths } = generateOpenAPI([createProject], { title: 'Test API', version: '1.0.0' })
+    const { responses } = paths['/api/projects'].post
+    expect(responses['402']).toEqual({
+      description: 'PLAN_LIMIT',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+    })
+    expect(responses['401'].description).toBe('Not authenticated, SESSION_EXPIRED')
+  })
+
+  test("document the request body and signature errors of webhooks", () => {
+    const stripeEvents = createRoute()
+      .parse({ method: 'POST', path: '/webhooks/stripe', webhook: verifyWebhook({ scheme: 'stripe', secret: 'whsec_test' }) })
+      .handle(() => ({}))
+
+    const { paths } = generateOpenAPI([stripeEvents], { title: 'Test API', version: '1.0.0' })
+    const operation = paths['/webhooks/stripe'].post
+    expect(operation.requestBody).toEqual({ required: true, content: { 'application/json': { schema: {} } } })
+    expect(operation.responses['401'].description).toBe('Invalid webhook signature')
+    expect(Object.keys(operation.responses)).toEqual(['200', '401', '404', '405', '413', '500'])
+  })
+
+  test("document the errors of tenant resolution", () => {
+    const listProjects = createRoute()
+      .parse({ method: 'GET', path: '/api/projects', tenant: resolveTenant({ from: 'header', load: (id) => ({ id }) }) })
+      .handle(() => [])
+
+    const { paths } = generateOpenAPI([listProjects], { title: 'Test API', version: '1.0.0' })
+    const { responses } = paths['/api/projects'].get
+    expect(responses['400'].description).toBe('Tenant required')
+    expect(Object.keys(responses)).toEqual(['200', '400', '404', '405', '500'])
+  })
+
+  test("document the 403 of authorize() steps", () => {
+    const deleteProject = createRoute()
+      .parse({ method: 'DELETE', path: '/api/projects/[id]', auth: bearerJwt({ secret: 'secret' }) })
+      .authorize(requireRole('admin'))
+      .authorize(() => true, { permission: 'project:delete' })
+      .handle(() => ({}))
+
+    const { paths } = generateOpenAPI([deleteProject], { title: 'Test API', version: '1.0.0' })
+    expect(paths['/api/projects/{id}'].delete.responses['403']).toEqual({
+      description: 'Forbidden, requires role:admin, project:delete',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, test, expect } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import { createRouter } from "../src/server/createRouter"
+import { coercePathParams, compilePathPattern, decodePathParams, matchPath } from "../src/server/pathPattern"
+import type { Expect, Eq } from "../src/types-helper"
+
+const match = (pattern: string, pathname: string) => {
+  const compiled = compilePathPattern(pattern)
+  const params = matchPath(compiled, pathname)
+  return params && coercePathParams(compiled, decodePathParams(params))
+}
+
+describe("compilePathPattern", () => {
+  test("coerce typed params and only match values of the type", () => {
+    expect(match('/api/users/[id:int]', '/api/users/42')).toEqual({ id: 42 })
+    expect(match('/api/users/[id:int]', '/api/users/abc')).toBeNull()
+    expect(match('/api/prices/[amount:number]', '/api/prices/9.99')).toEqual({ amount: 9.99 })
+    expect(match('/api/items/[id:uuid]', '/api/items/0b5e7a8c-3f1d-4a62-9d4e-5b7a1c2d3e4f')).toEqual({ id: '0b5e7a8c-3f1d-4a62-9d4e-5b7a1c2d3e4f' })
+    expect(match('/api/items/[id:uuid]', '/api/items/123')).toBeNull()
+    expect(() => match('/api/users/[id:int]', '/api/users/99999999999999999999')).toThrow('out of range')
+  })
+
+  test("match optional and catch-all segments", () => {
+    expect(match('/[[locale]]/about', '/about')).toEqual({ locale: undefined })
+    expect(match('/[[locale]]/about', '/fr/about')).toEqual({ locale: 'fr' })
+    expect(match('/docs/[...slug]', '/docs/guides/getting%20started')).toEqual({ slug: ['guides', 'getting started'] })
+    expect(match('/docs/[...slug]', '/docs')).toBeNull()
+    expect(match('/docs/[[...slug]]', '/docs')).toEqual({ slug: undefined })
+  })
+
+  test("match special characters literally", () => {
+    expect(match('/files/[name].json', '/files/report.json')).toEqual({ name: 'report' })
+    expect(match('/files/[name].json', '/files/reportxjson')).toBeNull()
+    expect(match('/api/(group)/[id]', '/api/(group)/1')).toEqual({ id: '1' })
+  })
+
+  test("throw on invalid patterns", () => {
+    expect(() => compilePathPattern('/api/users/[id:date]')).toThrow("Unknown type 'date' of path param 'id'")
+    expect(() => compilePathPattern('/docs/[...slug]/edit')).toThrow("must be the last segment")
+    expect(() => compilePathPattern('/api/[id]/[id]')).toThrow("Duplicate path param 'id'")
+  })
+})
+
+describe("typed path params", () => {
+  test("pass coerced params to the handler with types", async () => {
+    const route = createRoute()
+      .parse({ path: '/api/orgs/[orgId]/items/[id:int]/[[...rest]]' as const })
+      .handle((ctx) => {
+        type TestParams = Expect<Eq<typeof ctx.parsed.path.params, { orgId: string, id: number, rest?: string[] }>>
+        return ctx.parsed.path.params
+      })
+
+    type RouteType = typeof route.inferRouteType
+    type TestPath = Expect<Eq<RouteType['path'], `/api/orgs/${string}/items/${number}` | `/api/orgs/${string}/items/${number}/${string}`>>
+    type TestPathParams = Expect<Eq<RouteType['pathParams'], { orgId: string, id: number, rest?: string[] }>>
+
+    const response = await route(new Request('http://localhost/api/orgs/acme/items/7/a/b'))
+    expect(await response.json()).toEqual({ orgId: 'acme', id: 7, rest: ['a', 'b'] })
+
+    const notFound = await route(new Request('http://localhost/api/orgs/acme/items/seven'))
+    expect(notFound.status).toBe(404)
+
+    const outOfRange = await route(new Request('http://localhost/api/orgs/acme/items/99999999999999999999'))
+    expect(outOfRange.status).toBe(400)
+    expect((await outOfRange.json()).error.code).toBe('PARSE_ERROR')
+  })
+
+  test("route typed params before string params", async () => {
+    const byId = createRoute()
+      .parse({ path: '/api/posts/[id:int]' })
+      .handle(() => ({ route: 'byId' }))
+    const bySlug = createRoute()
+      .parse({ path: '/api/posts/[slug]' })
+      .handle(() => ({ route: 'bySlug' }))
+    const router = createRouter([bySlug, byId])
+
+    expect(router.routes.map(route => route.path)).toEqual(['/api/posts/[id:int]', '/api/posts/[slug]'])
+    expect(await (await router.fetch(new Request('http://localhost/api/posts/1'))).json()).toEqual({ route: 'byId' })
+    expect(await (await router.fetch(new Request('http://localhost/api/posts/hello'))).json()).toEqual({ route: 'bySlug' })
+  })
+})
+
+describe("framework path params", () => {
+  const route = createRoute()
+    .parse({ path: '/api/users/[id:int]/files/[...path]' })
+    .handle((ctx) => ctx.parsed.path.params)
+
+  test("give the same params for every request format", async () => {
+    const url = 'http://localhost/api/users/7/files/a%20b/c'
+    const expected = { id: 7, path: ['a b', 'c'] }
+
+    expect(await (await route(new Request(url))).json()).toEqual(expected)
+    // Next.js App Router, `params` is a Promise since Next.js 15
+    expect(await (await route(new Request(url), { params: { id: '7', path: ['a b', 'c'] } })).json()).toEqual(expected)
+    expect(await (await route(new Request(url), { params: Promise.resolve({ id: '7', path: ['a b', 'c'] }) })).json()).toEqual(expected)
+    // Bun.serve routes
+    expect(await (await route({ request: new Request(url), params: { id: '7', path: 'a b/c' } })).json()).toEqual(expected)
+    expect(await (await createRouter([route]).fetch(new Request(url))).json()).toEqual(expected)
+    expect(await route.invoke({ pathParams: { id: '7', path: ['a b', 'c'] } })).toEqual(expected)
+  })
+
+  test("prefer framework params over the request URL", async () => {
+    // Eg. behind a rewrite or a base path
+    const rewritten = await route(new Request('http://localhost/users/7/a'), { params: { id: '7', path: ['a'] } })
+    expect(await rewritten.json()).toEqual({ id: 7, path: ['a'] })
+
+    // Other second args, eg. `env` of Cloudflare Workers, aren't params
+    const withEnv = await route(new Request('http://localhost/api/users/7/files/a'), { id: '8' })
+    expect(await withEnv.json()).toEqual({ id: 7, path: ['a'] })
+  })
+
+  test("report mismatches", async () => {
+    const missing = await route(new Request('http://localhost/users/7/a'), { params: { id: '7' } })
+    expect(missing.status).toBe(404)
+    expect((await missing.json()).error.message).toContain("Missing framework params: path")
+
+    const invalid = await route(new Request('http://localhost/api/users/7/files/a'), { params: { id: 'seven', path: ['a'] } })
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).error.message).toContain("Path param 'id' must be an int, got: seven")
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, test, expect, setSystemTime, afterEach } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import { rateLimit, createMemoryRateLimitStore } from "../src/server/rateLimit"
+
+afterEach(() => {
+  setSystemTime()
+})
+
+describe("rateLimit", () => {
+  test("return 429 with rate limit headers when the limit is exceeded", async () => {
+    setSystemTime(new Date('2025-01-01T00:00:00.000Z'))
+    const route = createRoute()
+      .use(rateLimit({ limit: 2, window: 60_000 }))
+      .handle(() => ({ ok: true }))
+
+    const request = () => new Request('http://localhost/test', { headers: { 'x-forwarded-for': '1.2.3.4, 10.0.0.1' } })
+
+    const first = await route(request())
+    expect(first.status).toBe(200)
+    expect(first.headers.get('RateLimit-Limit')).toBe('2')
+    expect(first.headers.get('RateLimit-Remaining')).toBe('1')
+    expect(first.headers.get('RateLimit-Reset')).toBe('60')
+
+    await route(request())
+    const limited = await route(request())
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('Retry-After')).toBe('60')
+    expect(limited.headers.get('RateLimit-Remaining')).toBe('0')
+    expect(await limited.json()).toMatchObject({ error: { code: 'RATE_LIMITED' } })
+
+    // Other clients have their own limit
+    const other = await route(new Request('http://localhost/test', { headers: { 'x-real-ip': '5.6.7.8' } }))
+    expect(other.status).toBe(200)
+
+    // Requests without a client IP aren't limited, rather than sharing one limit
+    for (let i = 0; i < 3; i++) expect((await route(new Request('http://localhost/test'))).status).toBe(200)
+  })
+
+  test("use key from parsed auth and skip when key is null", async () => {
+    const route = createRoute()
+      .parse({
+        auth: (ctx) => ({ userId: ctx.authHeader ? ctx.authHeader.replace('Bearer ', '') : null }),
+      })
+      .use(rateLimit({ key: (ctx) => ctx.parsed.auth.userId, limit: 1, window: 60_000 }))
+      .handle(() => ({ ok: true }))
+
+    const request = (token?: string) => new Request('http://localhost/test', {
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    })
+
+    expect((await route(request('alice'))).status).toBe(200)
+    expect((await route(request('alice'))).status).toBe(429)
+    expect((await route(request('bob'))).status).toBe(200)
+    expect((await route(request())).status).toBe(200)
+    expect((await route(request())).status).toBe(200)
+  })
+
+  test("weight the previous window in the sliding window", async () => {
+    const store = createMemoryRateLimitStore()
+    const route = createRoute()
+      .use(rateLimit({ key: () => 'client', limit: 2, window: 60_000, store }))
+      .handle(() => ({ ok: true }))
+    const request = () => new Request('http://localhost/test')
+
+    setSystemTime(new Date('2025-01-01T00:00:00.000Z'))
+    await route(request())
+    await route(request())
+
+    // Halfway into the next window, half of the previous requests still count
+    setSystemTime(new Date('2025-01-01T00:01:30.000Z'))
+    expect((await route(request())).status).toBe(200)
+    expect((await route(request())).status).toBe(429)
+
+    // Previous counters have expired
+    setSystemTime(new Date('2025-01-01T00:05:00.000Z'))
+    expect(await store.get('ratelimit:client:1735689600000')).toBe(0)
+    expect((await route(request())).status).toBe(200)
+  })
+})
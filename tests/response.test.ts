@@ -9,8 +9,13 @@ import {
   notFound,
   notAuthenticated,
   forbidden,
-  internalServerError
+  internalServerError,
+  jsonError,
+  sse,
+  formatSSEMessage
 } from "../src/server/response";
+import { createRoute, RouteError } from "../src/server/createRoute";
+import type { Expect, Eq } from "../src/types-helper";
 
 describe("Response helpers", () => {
   test("json() creates a valid JSON response", () => {
@@ -236,4 +241,90 @@ describe("Response helpers", () => {
       });
     });
   });
+
+  test("jsonError() renders a RouteError with its details", () => {
+    const error = new RouteError("Error parsing `body`", {
+      errorCode: "VALIDATION_ERROR",
+      errorMessage: "email: Invalid email",
+      httpStatus: 422,
+      details: [{ path: "email", message: "Invalid email", code: "invalid_format" }],
+    });
+    const response = jsonError(error);
+
+    expect(response.status).toBe(422);
+
+    return response.json().then(body => {
+      expect(body).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Error parsing `body`: email: Invalid email",
+          details: [{ path: "email", message: "Invalid email", code: "invalid_format" }],
+        }
+      });
+    });
+  });
+});
+
+describe("sse()", () => {
+  type ImportEvent =
+    | { event: "progress"; data: { percent: number }; id?: string }
+    | { event: "done"; data: { url: string } };
+
+  test("formatSSEMessage() encodes fields and JSON data", () => {
+    expect(formatSSEMessage({ event: "progress", id: "1", retry: 3000, data: { percent: 50 } }))
+      .toBe('event: progress\nid: 1\nretry: 3000\ndata: {"percent":50}\n\n');
+    expect(formatSSEMessage({ event: "a\nb", data: "line 1\nline 2" }))
+      .toBe('event: ab\ndata: "line 1\\nline 2"\n\n');
+  });
+
+  test("stream events and close when the handler returns", async () => {
+    const response = sse<ImportEvent>(async (send) => {
+      send({ event: "progress", data: { percent: 50 }, id: "50" });
+      send({ event: "done", data: { url: "/imports/1" } });
+    });
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(await response.text()).toBe(
+      'event: progress\nid: 50\ndata: {"percent":50}\n\n' +
+      'event: done\ndata: {"url":"/imports/1"}\n\n',
+    );
+  });
+
+  test("resume from Last-Event-ID and send handler errors as an error event", async () => {
+    const request = new Request("http://localhost/events", { headers: { "Last-Event-ID": "41" } });
+    const response = sse(async (send, _signal, { lastEventId }) => {
+      send({ id: String(Number(lastEventId) + 1), data: "next" });
+      throw new Error("Import failed");
+    }, { request });
+
+    expect(await response.text()).toBe(
+      'id: 42\ndata: "next"\n\n' +
+      'event: error\ndata: {"message":"Import failed"}\n\n',
+    );
+  });
+
+  test("send heartbeats and abort when the client disconnects", async () => {
+    let aborted = false;
+    const response = sse(async (_send, signal) => {
+      await new Promise<void>((resolve) => signal.addEventListener("abort", () => resolve()));
+      aborted = signal.aborted;
+    }, { heartbeat: 5 });
+
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+    expect(new TextDecoder().decode(value)).toBe(": ping\n\n");
+    await reader.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(aborted).toBe(true);
+  });
+
+  test("expose event types in inferRouteType", async () => {
+    const route = createRoute().handle(() => sse<ImportEvent>((send) => {
+      send({ event: "done", data: { url: "/imports/1" } });
+    }));
+    type _Events = Expect<Eq<NonNullable<typeof route.inferRouteType["events"]>, ImportEvent>>;
+
+    const response = await route(new Request("http://localhost/events"));
+    expect(await response.text()).toBe('event: done\ndata: {"url":"/imports/1"}\n\n');
+  });
 });
@@ -0,0 +1,109 @@
+import { describe, test, expect } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import {
+  csvSerializer,
+  deserializeSuperjson,
+  jsonSerializer,
+  ndjsonSerializer,
+  negotiateSerializer,
+  serializeSuperjson,
+  superjsonSerializer,
+} from "../src/server/serializers"
+
+const request = (accept?: string) => new Request('http://localhost/test', { headers: accept ? { accept } : {} })
+
+describe("negotiateSerializer", () => {
+  const serializers = [jsonSerializer, csvSerializer]
+
+  test("pick serializer by Accept header and quality", () => {
+    const rows = [{ id: 1 }]
+    expect(negotiateSerializer(null, serializers, rows)).toBe(jsonSerializer)
+    expect(negotiateSerializer('text/csv', serializers, rows)).toBe(csvSerializer)
+    expect(negotiateSerializer('application/json;q=0.5, text/csv', serializers, rows)).toBe(csvSerializer)
+    expect(negotiateSerializer('text/*', serializers, rows)).toBe(csvSerializer)
+    expect(negotiateSerializer('*/*', serializers, rows)).toBe(jsonSerializer)
+  })
+
+  test("skip serializers that can't encode the value", () => {
+    expect(negotiateSerializer('text/csv, application/json;q=0.1', serializers, { id: 1 })).toBe(jsonSerializer)
+    expect(negotiateSerializer('text/csv', serializers, { id: 1 })).toBeUndefined()
+  })
+})
+
+describe("serializers", () => {
+  test("encode BigInt as string in JSON", () => {
+    expect(jsonSerializer.serialize({ count: 10n })).toBe('{"count":"10"}')
+  })
+
+  test("round-trip Date, Map, Set, BigInt, and undefined with superjson", () => {
+    const value = {
+      createdAt: new Date('2025-01-01T00:00:00.000Z'),
+      counts: new Map([['a', 1n]]),
+      tags: new Set(['x']),
+      'dotted.key': undefined,
+      nested: [{ at: new Date('2025-01-02T00:00:00.000Z') }],
+    }
+    const encoded = serializeSuperjson(value)
+    expect(encoded.meta?.values).toEqual({
+      createdAt: 'Date',
+      counts: 'Map',
+      'counts.0.1': 'bigint',
+      tags: 'Set',
+      'dotted\\.key': 'undefined',
+      'nested.0.at': 'Date',
+    })
+    expect(deserializeSuperjson<typeof value>(JSON.parse(JSON.stringify(encoded)))).toEqual(value)
+  })
+
+  test("escape CSV values", () => {
+    const csv = csvSerializer.serialize([
+      { name: 'Alice, Inc.', note: 'says "hi"' },
+      { name: 'Bob', joinedAt: new Date('2025-01-01T00:00:00.000Z') },
+    ])
+    expect(csv).toBe('name,note,joinedAt\r\n"Alice, Inc.","says ""hi""",\r\nBob,,2025-01-01T00:00:00.000Z\r\n')
+  })
+})
+
+describe("createRoute serializers option", () => {
+  test("encode handler result by Accept header", async () => {
+    const route = createRoute({ serializers: [jsonSerializer, superjsonSerializer, csvSerializer] })
+      .handle(() => [{ id: 1n, createdAt: new Date('2025-01-01T00:00:00.000Z') }])
+
+    const json = await route(request())
+    expect(json.headers.get('Content-Type')).toBe('application/json')
+    expect(json.headers.get('Vary')).toBe('Accept')
+    expect(await json.json()).toEqual([{ id: '1', createdAt: '2025-01-01T00:00:00.000Z' }])
+
+    const superjson = await route(request('application/vnd.superjson+json'))
+    expect(deserializeSuperjson<{ id: bigint, createdAt: Date }[]>(await superjson.json())).toEqual([{ id: 1n, createdAt: new Date('2025-01-01T00:00:00.000Z') }])
+
+    const csv = await route(request('text/csv'))
+    expect(await csv.text()).toBe('id,createdAt\r\n1,2025-01-01T00:00:00.000Z\r\n')
+  })
+
+  test("stream async iterables as NDJSON", async () => {
+    const route = createRoute({ serializers: [jsonSerializer, ndjsonSerializer] })
+      .handle(async function* () {
+        yield { id: 1 }
+        yield { id: 2 }
+      })
+
+    const response = await route(request('application/x-ndjson'))
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson')
+    expect(await response.text()).toBe('{"id":1}\n{"id":2}\n')
+  })
+
+  test("respond with 406 when no serializer is acceptable", async () => {
+    let calls = 0
+    const route = createRoute({ serializers: [jsonSerializer] }).handle(() => ({ calls: ++calls }))
+
+    const response = await route(request('text/html'))
+    expect(response.status).toBe(406)
+    // Checked before the handler, so its side effects don't run
+    expect(calls).toBe(0)
+    expect((await response.json()).error).toMatchObject({
+      code: 'NOT_ACCEPTABLE',
+      message: 'Not Acceptable: Expected Accept header with one of: application/json',
+    })
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, test, expect } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import { requireSameTenant, requireTenantMember, resolveTenant } from "../src/server/tenant"
+
+type Org = { id: string, memberIds: string[] }
+
+const orgs: Record<string, Org> = {
+  acme: { id: 'acme', memberIds: ['alice'] },
+  globex: { id: 'globex', memberIds: ['bob'] },
+}
+
+const loadOrg = (id: string) => orgs[id]
+
+const request = (url: string, headers: Record<string, string> = {}) => new Request(url, { headers })
+
+describe("resolveTenant", () => {
+  test("resolve the tenant from the path param", async () => {
+    const route = createRoute()
+      .parse({
+        path: '/api/orgs/[orgId]/projects',
+        tenant: resolveTenant({ from: 'path', load: loadOrg }),
+      })
+      .handle((ctx) => ({ orgId: ctx.parsed.tenant.id }))
+
+    expect(await (await route(request('http://localhost/api/orgs/acme/projects'))).json()).toEqual({ orgId: 'acme' })
+
+    const unknown = await route(request('http://localhost/api/orgs/initech/projects'))
+    expect(unknown.status).toBe(404)
+    expect((await unknown.json()).error.code).toBe('TENANT_NOT_FOUND')
+  })
+
+  test("resolve the tenant from the subdomain or the header", async () => {
+    const route = createRoute()
+      .parse({ tenant: resolveTenant({ from: ['subdomain', 'header'], rootDomain: 'example.com', load: loadOrg }) })
+      .handle((ctx) => ({ orgId: ctx.parsed.tenant.id }))
+
+    expect(await (await route(request('http://acme.example.com/api/projects'))).json()).toEqual({ orgId: 'acme' })
+    expect(await (await route(request('http://example.com/api/projects', { 'X-Tenant-Id': 'globex' }))).json()).toEqual({ orgId: 'globex' })
+
+    const missing = await route(request('http://www.example.com/api/projects'))
+    expect(missing.status).toBe(400)
+    expect((await missing.json()).error).toMatchObject({
+      code: 'TENANT_REQUIRED',
+      message: 'Bad request: Missing tenant ID in subdomain or header',
+    })
+    expect((await route(request('http://127.0.0.1/api/projects'))).status).toBe(400)
+    expect((await route(request('http://api.other.com/api/projects'))).status).toBe(400)
+  })
+
+  test("require rootDomain for the subdomain source", () => {
+    expect(() => resolveTenant({ from: 'subdomain', load: loadOrg })).toThrow('resolveTenant requires `rootDomain`')
+  })
+})
+
+describe("tenant authorization", () => {
+  const tenantRoute = createRoute().parse({
+    auth: (ctx) => ({ id: ctx.authHeader ?? '' }),
+    tenant: resolveTenant({ from: 'header', load: loadOrg }),
+  })
+  const isMember = (user: { id: string }, org: Org) => org.memberIds.includes(user.id)
+
+  test("deny non-members with 403, or 404 when hiding tenants", async () => {
+    const route = tenantRoute.authorize(requireTenantMember(isMember)).handle(() => ({ ok: true }))
+    expect((await route(request('http://localhost/', { Authorization: 'alice', 'X-Tenant-Id': 'acme' }))).status).toBe(200)
+
+    const forbidden = await route(request('http://localhost/', { Authorization: 'alice', 'X-Tenant-Id': 'globex' }))
+    expect(forbidden.status).toBe(403)
+    expect((await forbidden.json()).error).toMatchObject({ code: 'UNAUTHORIZED', message: 'Forbidden: Not a member of the tenant' })
+
+    const hiddenRoute = tenantRoute.authorize(requireTenantMember(isMember, { hideTenant: true })).handle(() => ({ ok: true }))
+    const hidden = await hiddenRoute(request('http://localhost/', { Authorization: 'alice', 'X-Tenant-Id': 'globex' }))
+    const unknown = await hiddenRoute(request('http://localhost/', { Authorization: 'alice', 'X-Tenant-Id': 'initech' }))
+    expect(hidden.status).toBe(404)
+    expect((await hidden.json()).error.message).toBe((await unknown.json()).error.message)
+    expect(hiddenRoute.getRouteInfo().permissions).toEqual(['tenant:member'])
+  })
+
+  test("respond with 404 for resources of other tenants", async () => {
+    const projects: Record<string, { id: string, orgId: string }> = { p1: { id: 'p1', orgId: 'acme' } }
+    const route = tenantRoute
+      .parse({ resource: (ctx) => projects[new URL(ctx.request.url).searchParams.get('id') ?? ''] })
+      .authorize(requireTenantMember(isMember))
+      .authorize(requireSameTenant((project: { orgId: string }) => project.orgId))
+      .handle((ctx) => ctx.parsed.resource)
+
+    expect((await route(request('http://localhost/?id=p1', { Authorization: 'alice', 'X-Tenant-Id': 'acme' }))).status).toBe(200)
+
+    const crossTenant = await route(request('http://localhost/?id=p1', { Authorization: 'bob', 'X-Tenant-Id': 'globex' }))
+    expect(crossTenant.status).toBe(404)
+    expect((await crossTenant.json()).error.code).toBe('RESOURCE_NOT_FOUND')
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, test, expect } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import { createMemoryTracer, SpanStatusCode } from "../src/server/tracing"
+
+describe("tracing", () => {
+  test("open a route span with child spans per step and parse field", async () => {
+    const tracer = createMemoryTracer()
+    const route = createRoute({ name: 'baseRoute', tracer })
+      .prepare(() => ({ db: 'db' }))
+      .extend({ name: 'getUser' })
+      .parse({
+        path: '/api/users/[id]' as const,
+        auth: () => ({ userId: 'user_1' }),
+        query: (ctx) => ({ include: ctx.query.include }),
+      })
+      .handle((ctx) => ({ id: ctx.parsed.path.params.id }))
+
+    const response = await route(new Request('http://localhost/api/users/123?include=profile', {
+      headers: { 'x-request-id': 'req_1' },
+    }))
+    expect(response.status).toBe(200)
+
+    expect(tracer.spans.map(span => span.name)).toEqual(['baseRoute → getUser', 'prepare', 'parse auth', 'parse query', 'handle'])
+    const [routeSpan, ...childSpans] = tracer.spans
+    expect(routeSpan.attributes).toEqual({
+      'route.name': 'getUser',
+      'http.route': '/api/users/[id]',
+      'http.request.method': 'GET',
+      'url.path': '/api/users/123',
+      'request.id': 'req_1',
+      'http.response.status_code': 200,
+    })
+    expect(routeSpan.status.code).toBe(SpanStatusCode.UNSET)
+    for (const span of tracer.spans) {
+      expect(span.ended).toBe(true)
+      expect(span.durationMs).toBeGreaterThanOrEqual(0)
+    }
+    for (const span of childSpans) {
+      expect(span.parentId).toBe(routeSpan.id)
+      expect(span.status.code).toBe(SpanStatusCode.OK)
+    }
+  })
+
+  test("record errors on the failing span", async () => {
+    const tracer = createMemoryTracer()
+    const route = createRoute({ name: 'createUser', tracer })
+      .parse({ body: () => { throw new Error('Invalid body') } })
+      .handle(() => ({ ok: true }))
+
+    const response = await route(new Request('http://localhost/api/users', { method: 'POST', body: '{}' }))
+    expect(response.status).toBe(400)
+
+    const [routeSpan, bodySpan] = tracer.spans
+    expect(tracer.spans).toHaveLength(2)
+    expect(bodySpan.name).toBe('parse body')
+    expect(bodySpan.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Error parsing `body`' })
+    // 4xx responses don't fail the route span
+    expect(routeSpan.status.code).toBe(SpanStatusCode.UNSET)
+    expect(routeSpan.attributes['error.type']).toBe('PARSE_ERROR')
+    expect(routeSpan.attributes['http.response.status_code']).toBe(400)
+    expect(routeSpan.exceptions).toHaveLength(1)
+
+    tracer.reset()
+    const failingRoute = createRoute({ tracer }).handle(() => {
+      throw new Error('Database unavailable')
+    })
+    await failingRoute(new Request('http://localhost/test'))
+    expect(tracer.spans.map(span => span.name)).toEqual(['route', 'handle'])
+    expect(tracer.spans[0].status).toEqual({ code: SpanStatusCode.ERROR, message: 'Internal Server Error' })
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, test, expect, setSystemTime, afterEach } from "bun:test"
+import { createRoute } from "../src/server/createRoute"
+import { verifyWebhook } from "../src/server/webhook"
+
+afterEach(() => {
+  setSystemTime()
+})
+
+const hmac = async (key: Uint8Array | string, content: string, encoding: 'hex' | 'base64') => {
+  const keyBytes = typeof key === 'string' ? new TextEncoder().encode(key) : key
+  const cryptoKey = await crypto.subtle.importKey('raw', keyBytes as Uint8Array<ArrayBuffer>, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const digest = new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(content)))
+  return encoding === 'hex' ? Buffer.from(digest).toString('hex') : Buffer.from(digest).toString('base64')
+}
+
+const body = JSON.stringify({ type: 'invoice.paid', data: { id: 'in_1' } })
+const now = 1_700_000_000
+
+const webhookRequest = (headers: Record<string, string>) =>
+  new Request('http://localhost/webhooks', { method: 'POST', headers, body })
+
+describe("verifyWebhook", () => {
+  const stripeRoute = createRoute()
+    .parse({ webhook: verifyWebhook<{ type: string }>({ scheme: 'stripe', secret: ['whsec_new', 'whsec_old'] }) })
+    .handle((ctx) => ({ type: ctx.parsed.webhook.payload.type, timestamp: ctx.parsed.webhook.timestamp }))
+
+  test("verify Stripe signatures with rotated secrets", async () => {
+    setSystemTime(new Date(now * 1000))
+    const signature = await hmac('whsec_old', `${now}.${body}`, 'hex')
+    const response = await stripeRoute(webhookRequest({ 'Stripe-Signature': `t=${now},v1=${signature}` }))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ type: 'invoice.paid', timestamp: new Date(now * 1000).toISOString() })
+  })
+
+  test("reject invalid signatures and old timestamps", async () => {
+    setSystemTime(new Date(now * 1000))
+    const invalid = await stripeRoute(webhookRequest({ 'Stripe-Signature': `t=${now},v1=${await hmac('other', `${now}.${body}`, 'hex')}` }))
+    expect(invalid.status).toBe(401)
+    expect((await invalid.json()).error).toMatchObject({
+      code: 'INVALID_SIGNATURE',
+      message: 'Invalid webhook signature: Webhook signature does not match',
+    })
+
+    const missing = await stripeRoute(webhookRequest({}))
+    expect((await missing.json()).error.message).toBe('Invalid webhook signature: Missing webhook signature')
+
+    setSystemTime(new Date((now + 301) * 1000))
+    const signature = await hmac('whsec_new', `${now}.${body}`, 'hex')
+    const expired = await stripeRoute(webhookRequest({ 'Stripe-Signature': `t=${now},v1=${signature}` }))
+    expect(expired.status).toBe(401)
+    expect((await expired.json()).error.message).toContain('outside the tolerance of 300 seconds')
+  })
+
+  test("verify GitHub signatures and keep the parsed body", async () => {
+    const route = createRoute()
+      .parse({
+        webhook: verifyWebhook({ scheme: 'github', secret: 'github-secret' }),
+        body: (ctx) => ctx.body as { type: string },
+      })
+      .handle((ctx) => ({ id: ctx.parsed.webhook.id, rawBody: ctx.parsed.webhook.rawBody, type: ctx.parsed.body.type }))
+
+    const response = await route(webhookRequest({
+      'Content-Type': 'application/json',
+      'X-Hub-Signature-256': `sha256=${await hmac('github-secret', body, 'hex')}`,
+      'X-GitHub-Delivery': 'delivery-1',
+    }))
+    expect(await response.json()).toEqual({ id: 'delivery-1', rawBody: body, type: 'invoice.paid' })
+  })
+
+  test("verify Svix signatures", async () => {
+    setSystemTime(new Date(now * 1000))
+    const key = crypto.getRandomValues(new Uint8Array(24))
+    const secret = `whsec_${Buffer.from(key).toString('base64')}`
+    const route = createRoute()
+      .parse({ webhook: verifyWebhook({ scheme: 'svix', secret }) })
+      .handle((ctx) => ({ id: ctx.parsed.webhook.id }))
+
+    const signature = await hmac(key, `msg_1.${now}.${body}`, 'base64')
+    const response = await route(webhookRequest({
+      'svix-id': 'msg_1',
+      'svix-timestamp': String(now),
+      'svix-signature': `v1,invalid v1,${signature}`,
+    }))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ id: 'msg_1' })
+  })
+  test("reject empty and invalid secrets when the route is defined", () => {
+    expect(() => verifyWebhook({ scheme: 'github', secret: '' })).toThrow('verifyWebhook: webhook secret is empty')
+    expect(() => verifyWebhook({ scheme: 'svix', secret: 'whsec_!!!' })).toThrow('verifyWebhook: invalid webhook secret')
+  })
+})